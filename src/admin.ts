@@ -0,0 +1,171 @@
+/* eslint-disable no-console */
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextFunction, Response } from 'express';
+import { PublicKey } from '@solana/web3.js';
+import Redis from 'ioredis';
+import bs58 from 'bs58';
+
+import { fail, MatchedRoute, MiddlewareRequest, sendError } from './http.js';
+import { verifyWalletSignature } from './utils.js';
+
+/**
+ * Admin authentication and audit log.
+ *
+ * An admin request is authorized either by an API key (`x-admin-key`) or by a wallet on
+ * the admin allowlist signing the request:
+ *   x-admin-wallet: <pubkey>
+ *   x-admin-timestamp: <ms>
+ *   x-admin-signature: <base58 ed25519 signature of `adminSignatureMessage(...)`>
+ * Signatures are only accepted within `maxAgeMs` of their timestamp, and only once.
+ *
+ * Every mutating admin request (authorized or not) is appended to the `admin:audit` stream
+ * with who made it, the route, its parameters and the response status.
+ */
+
+export type AdminApiKey = { name: string; key: string };
+
+/** Who made an admin request: `key:<name>` or `wallet:<pubkey>`. */
+export type AdminActor = string;
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by the admin auth middleware. */
+      adminActor?: AdminActor;
+    }
+  }
+}
+
+declare module 'http' {
+  interface IncomingMessage {
+    /** The body as received, kept by the JSON parser for wallet signature checks. */
+    rawBody?: Buffer;
+  }
+}
+
+export type AuditEntry = {
+  actor: AdminActor | null;
+  action: string;
+  params: Record<string, unknown>;
+  body: unknown;
+  status: number;
+  at: number;
+};
+
+const AUDIT_KEY = 'admin:audit';
+const AUDIT_KEEP = 100_000;
+const SIGNATURE_PREFIX = 'daily-free-box admin';
+
+function signatureKey(signature: string) {
+  return `admin:signature:${signature}`;
+}
+
+function sha256(data: string | Buffer) {
+  return createHash('sha256').update(data).digest();
+}
+
+/**
+ * The text an admin wallet signs for one request: method, path with query string,
+ * timestamp and the SHA-256 of the raw body (empty for requests without one).
+ */
+export function adminSignatureMessage(method: string, path: string, timestamp: number, body: string | Buffer = ''): string {
+  return `${SIGNATURE_PREFIX}\n${method.toUpperCase()} ${path}\n${timestamp}\n${sha256(body).toString('hex')}`;
+}
+
+/**
+ * Express middleware that lets authorized admins through and sets `req.adminActor`.
+ * Needs the raw request body on `req.rawBody` to check wallet signatures.
+ */
+export function createAdminAuth(deps: {
+  redis: Redis;
+  apiKeys: AdminApiKey[];
+  wallets: string[];
+  maxAgeMs: number;
+}) {
+  const { redis, apiKeys, wallets, maxAgeMs } = deps;
+  // Compare digests so every comparison takes the same time whatever the key lengths
+  const keyDigests = apiKeys.map(({ name, key }) => ({ name, digest: sha256(key) }));
+  const allowed = new Set(wallets);
+
+  async function walletActor(req: MiddlewareRequest): Promise<{ actor: AdminActor } | { error: string }> {
+    const wallet = String(req.get('x-admin-wallet'));
+    if (!allowed.has(wallet)) return { error: 'Unauthorized' };
+    const timestamp = Number(req.get('x-admin-timestamp'));
+    if (!Number.isFinite(timestamp) || Math.abs(Date.now() - timestamp) > maxAgeMs) {
+      return { error: 'Admin signature expired' };
+    }
+    const rawSignature = String(req.get('x-admin-signature') || '');
+    let signature: Uint8Array;
+    try {
+      signature = bs58.decode(rawSignature);
+    } catch {
+      return { error: 'Unauthorized' };
+    }
+    const message = adminSignatureMessage(req.method, req.originalUrl, timestamp, req.rawBody ?? '');
+    if (!verifyWalletSignature(new PublicKey(wallet), message, signature)) return { error: 'Unauthorized' };
+    // Kept past the accepted window, so a captured request can't be replayed
+    const fresh = await redis.set(signatureKey(rawSignature), '1', 'PX', 2 * maxAgeMs, 'NX');
+    if (!fresh) return { error: 'Admin signature already used' };
+    return { actor: `wallet:${wallet}` };
+  }
+
+  return async (req: MiddlewareRequest, res: Response, next: NextFunction) => {
+    try {
+      const key = req.get('x-admin-key');
+      if (key) {
+        const digest = sha256(String(key));
+        const match = keyDigests.find((k) => timingSafeEqual(k.digest, digest));
+        if (!match) return fail(res, 'UNAUTHORIZED', 'Unauthorized');
+        req.adminActor = `key:${match.name}`;
+        return next();
+      }
+      if (req.get('x-admin-wallet')) {
+        const result = await walletActor(req);
+        if ('error' in result) return fail(res, 'UNAUTHORIZED', result.error);
+        req.adminActor = result.actor;
+        return next();
+      }
+      fail(res, 'UNAUTHORIZED', 'Unauthorized');
+    } catch (e) {
+      sendError(res, e);
+    }
+  };
+}
+
+export async function appendAudit(redis: Redis, entry: AuditEntry) {
+  await redis.xadd(AUDIT_KEY, 'MAXLEN', '~', AUDIT_KEEP, '*', 'entry', JSON.stringify(entry));
+}
+
+/**
+ * Express middleware that writes every non-GET admin request to the audit log once its
+ * response is sent. Mount it before the auth middleware so refused attempts are logged too.
+ * The route comes from `res.locals.matchedRoute`, set by `validate` while the route runs;
+ * a request refused before that is logged with its path as sent.
+ */
+export function auditAdminActions(redis: Redis) {
+  return (req: MiddlewareRequest, res: Response, next: NextFunction) => {
+    if (req.method === 'GET' || req.method === 'HEAD') return next();
+    const path = req.originalUrl.split('?')[0];
+    res.on('finish', () => {
+      const matched: MatchedRoute | undefined = res.locals.matchedRoute;
+      appendAudit(redis, {
+        actor: req.adminActor ?? null,
+        action: `${req.method} ${matched?.path ?? path}`,
+        params: matched?.params ?? {},
+        body: req.body ?? null,
+        status: res.statusCode,
+        at: Date.now(),
+      }).catch((e) => console.error('Writing the admin audit log failed:', e));
+    });
+    next();
+  };
+}
+
+/** Page through the audit log, newest first; `nextCursor` is null on the last page. */
+export async function listAudit(redis: Redis, limit: number, cursor?: string) {
+  const start = cursor ? `(${cursor}` : '+';
+  const rows = await redis.xrevrange(AUDIT_KEY, start, '-', 'COUNT', limit);
+  const entries = rows.map(([id, fields]) => ({ id, ...(JSON.parse(fields[fields.indexOf('entry') + 1]) as AuditEntry) }));
+  const nextCursor = entries.length === limit ? entries[entries.length - 1].id : null;
+  return { entries, nextCursor };
+}
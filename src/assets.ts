@@ -0,0 +1,141 @@
+import { Connection, Keypair, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { Metaplex } from '@metaplex-foundation/js';
+
+import { buildNftTransferInstructions, listTokenMetadataAssets } from './nft.js';
+import { buildCompressedNftTransferInstructions } from './bubblegum.js';
+import { buildCoreTransferInstructions } from './mplCore.js';
+import { DasAsset, getAsset, getAssetsByOwner } from './das.js';
+import { isNftAccount, TokenAccount } from './chain.js';
+
+/**
+ * One adapter per NFT standard, so gating and prizes don't care how an asset is stored.
+ *
+ * - `nft`: token-metadata NFTs, found through the owner's token accounts
+ * - `pnft`: programmable token-metadata NFTs (token records and rule sets on transfer)
+ * - `cnft`: Bubblegum compressed NFTs, found through DAS
+ * - `core`: Metaplex Core assets, found through DAS
+ *
+ * Token-metadata and DAS lookups are shared by the adapters of one query, so enabling
+ * more standards doesn't repeat RPC calls.
+ */
+
+export type AssetStandard = 'nft' | 'pnft' | 'cnft' | 'core';
+
+export const ASSET_STANDARDS: AssetStandard[] = ['nft', 'pnft', 'cnft', 'core'];
+
+export type OwnedAsset = {
+  id: string; // mint for token-metadata NFTs, asset id otherwise
+  standard: AssetStandard;
+  collection: string | null;
+  collectionVerified: boolean;
+  symbol: string;
+};
+
+export type AssetRef = { standard: AssetStandard; id: string };
+
+type AssetQuery = {
+  owner: PublicKey;
+  tokenMetadata(): Promise<OwnedAsset[]>;
+  das(): Promise<DasAsset[]>;
+};
+
+type AssetContext = { connection: Connection; mx: Metaplex };
+
+export interface AssetAdapter {
+  standard: AssetStandard;
+  list(query: AssetQuery): Promise<OwnedAsset[]>;
+  transfer(ctx: AssetContext, id: string, from: Keypair, to: PublicKey): Promise<TransactionInstruction[]>;
+}
+
+function fromDas(asset: DasAsset, standard: AssetStandard): OwnedAsset {
+  const group = asset.grouping?.find((g) => g.group_key === 'collection');
+  return {
+    id: asset.id,
+    standard,
+    collection: group?.group_value ?? null,
+    // Older DAS responses have no `verified` flag on groupings; only verified ones are indexed there
+    collectionVerified: group ? group.verified !== false : false,
+    symbol: asset.content?.metadata?.symbol ?? '',
+  };
+}
+
+const nft: AssetAdapter = {
+  standard: 'nft',
+  list: async (query) => (await query.tokenMetadata()).filter((a) => a.standard === 'nft'),
+  transfer: (ctx, id, from, to) => buildNftTransferInstructions(ctx.mx, from, new PublicKey(id), to),
+};
+
+const pnft: AssetAdapter = {
+  standard: 'pnft',
+  list: async (query) => (await query.tokenMetadata()).filter((a) => a.standard === 'pnft'),
+  transfer: (ctx, id, from, to) => buildNftTransferInstructions(ctx.mx, from, new PublicKey(id), to),
+};
+
+const cnft: AssetAdapter = {
+  standard: 'cnft',
+  list: async (query) =>
+    (await query.das()).filter((a) => a.compression?.compressed && !a.burnt).map((a) => fromDas(a, 'cnft')),
+  transfer: (ctx, id, from, to) => buildCompressedNftTransferInstructions(ctx.connection, id, from.publicKey, to),
+};
+
+const core: AssetAdapter = {
+  standard: 'core',
+  list: async (query) =>
+    (await query.das()).filter((a) => a.interface === 'MplCoreAsset' && !a.burnt).map((a) => fromDas(a, 'core')),
+  transfer: async (ctx, id, from, to) => {
+    const asset = await getAsset(ctx.connection, id);
+    const collection = asset.grouping?.find((g) => g.group_key === 'collection')?.group_value;
+    return buildCoreTransferInstructions(new PublicKey(id), collection ? new PublicKey(collection) : null, from.publicKey, to);
+  },
+};
+
+const adapters: Record<AssetStandard, AssetAdapter> = { nft, pnft, cnft, core };
+
+/** Whether an asset counts for `collection` (PublicKey = verified collection, string = legacy name matched by the ELMNT symbol). */
+export function inCollection(asset: OwnedAsset, collection: PublicKey | string): boolean {
+  return collection instanceof PublicKey
+    ? asset.collectionVerified && asset.collection === collection.toBase58()
+    : asset.symbol === 'ELMNT';
+}
+
+export type AssetLayer = {
+  standards: AssetStandard[];
+  /** Assets of every enabled standard held by `owner`. Pass `nftMints` if the token accounts are already known. */
+  listOwned(owner: PublicKey, opts?: { nftMints?: PublicKey[] }): Promise<OwnedAsset[]>;
+  transferInstructions(asset: AssetRef, from: Keypair, to: PublicKey): Promise<TransactionInstruction[]>;
+};
+
+export function createAssetLayer(deps: {
+  connection: Connection;
+  mx: Metaplex;
+  standards: AssetStandard[];
+  getTokenAccounts(owner: PublicKey): Promise<TokenAccount[]>;
+}): AssetLayer {
+  const { connection, mx, standards, getTokenAccounts } = deps;
+  const ctx: AssetContext = { connection, mx };
+
+  /** Mints of the NFT-shaped token accounts (amount 1, no decimals) held by `owner`. */
+  async function nftMintsOf(owner: PublicKey) {
+    return (await getTokenAccounts(owner)).filter(isNftAccount).map((a) => new PublicKey(a.mint));
+  }
+
+  return {
+    standards,
+    async listOwned(owner, opts = {}) {
+      let tokenMetadata: Promise<OwnedAsset[]> | undefined;
+      let das: Promise<DasAsset[]> | undefined;
+      const query: AssetQuery = {
+        owner,
+        tokenMetadata: () =>
+          (tokenMetadata ??= (async () => listTokenMetadataAssets(mx, opts.nftMints ?? (await nftMintsOf(owner))))()),
+        das: () => (das ??= getAssetsByOwner(connection, owner.toBase58())),
+      };
+      const lists = await Promise.all(standards.map((s) => adapters[s].list(query)));
+      return lists.flat();
+    },
+    async transferInstructions(asset, from, to) {
+      if (!standards.includes(asset.standard)) throw new Error(`Asset standard ${asset.standard} is not enabled`);
+      return adapters[asset.standard].transfer(ctx, asset.id, from, to);
+    },
+  };
+}
@@ -0,0 +1,142 @@
+/* eslint-disable no-console */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import YAML from 'yaml';
+import Redis from 'ioredis';
+
+import { GateConfig } from './gates.js';
+
+/**
+ * Box types.
+ *
+ * Each box has its own fee, prize table, allowed gate tiers and cooldown. Opens and asset
+ * charges are counted per box (the `default` box keeps the original Redis keys), and
+ * limited boxes can have a start/end date and a total supply. The `default` box is built
+ * from the env (OPEN_FEE_*, PRIZE_TABLE_PATH, every tier) unless the boxes file defines it.
+ */
+
+export const DEFAULT_BOX_ID = 'default';
+
+const BoxSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, { message: 'Box ids are lowercase letters, digits and dashes' }),
+  name: z.string().min(1),
+  prizeTablePath: z.string().min(1),
+  fee: z.object({
+    lamports: z.number().int().nonnegative(),
+    // Price in the fee token (UI amount); paying in the token is disabled when omitted
+    tokenAmount: z.number().positive().optional(),
+  }).strict(),
+  // Gate tiers that may open this box; every tier when omitted
+  tiers: z.array(z.string().min(1)).min(1).optional(),
+  // Overrides the cooldown of the owner's tier
+  cooldownHours: z.number().positive().optional(),
+  startsAt: z.coerce.date().optional(),
+  endsAt: z.coerce.date().optional(),
+  // Total opens across all wallets
+  supply: z.number().int().positive().optional(),
+}).strict().refine(
+  (b) => !b.startsAt || !b.endsAt || b.startsAt < b.endsAt,
+  { message: 'endsAt must be after startsAt' }
+);
+
+export const BoxConfigSchema = z.object({
+  boxes: z.array(BoxSchema).min(1),
+}).strict().superRefine((c, ctx) => {
+  const seen = new Set<string>();
+  c.boxes.forEach((b, i) => {
+    if (seen.has(b.id)) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['boxes', i, 'id'], message: `Duplicate box '${b.id}'` });
+    seen.add(b.id);
+  });
+});
+
+export type Box = z.infer<typeof BoxSchema>;
+
+export type BoxStatus = 'upcoming' | 'active' | 'ended' | 'soldOut';
+
+// KEYS[1] = opened counter; ARGV[1] = supply. Counts one open if the supply isn't used up.
+const RESERVE_SUPPLY_LUA = `
+local opened = tonumber(redis.call('GET', KEYS[1]) or '0')
+if opened >= tonumber(ARGV[1]) then return 0 end
+redis.call('INCR', KEYS[1])
+return 1
+`;
+
+function openedKey(boxId: string) {
+  return `box:${boxId}:opened`;
+}
+
+/**
+ * Load boxes from `file` (JSON or YAML). `defaultBox` is added when the file doesn't define
+ * a `default` box, or used alone when the file doesn't exist; an invalid file throws, as
+ * does a box naming a tier the gates don't have.
+ */
+export async function loadBoxConfig(file: string, defaultBox: Box, gates: GateConfig): Promise<Box[]> {
+  let boxes: Box[];
+  try {
+    const text = await fs.readFile(file, 'utf8');
+    const ext = path.extname(file).toLowerCase();
+    boxes = BoxConfigSchema.parse(ext === '.yaml' || ext === '.yml' ? YAML.parse(text) : JSON.parse(text)).boxes;
+  } catch (e: any) {
+    if (e?.code !== 'ENOENT') throw e;
+    console.log(`[boxes] ${file} not found, using the default box only`);
+    boxes = [];
+  }
+  if (!boxes.some((b) => b.id === DEFAULT_BOX_ID)) boxes = [defaultBox, ...boxes];
+  for (const box of boxes) {
+    const unknown = (box.tiers ?? []).filter((t) => !gates.tiers[t]);
+    if (unknown.length) throw new Error(`Box '${box.id}' names unknown tiers: ${unknown.join(', ')}`);
+  }
+  return boxes;
+}
+
+/** The gates that count for a box: only those granting one of its tiers, with its cooldown if it overrides it. */
+export function boxGateConfig(gates: GateConfig, box: Box): GateConfig {
+  const tiers = Object.fromEntries(
+    Object.entries(gates.tiers)
+      .filter(([name]) => !box.tiers || box.tiers.includes(name))
+      .map(([name, tier]) => [name, box.cooldownHours ? { ...tier, cooldownHours: box.cooldownHours } : tier])
+  );
+  return { ...gates, tiers, gates: gates.gates.filter((g) => tiers[g.tier]) };
+}
+
+export async function getBoxOpened(redis: Redis, box: Box): Promise<number> {
+  return Number((await redis.get(openedKey(box.id))) ?? 0);
+}
+
+/** Whether the box can be opened now, with its supply usage. */
+export async function getBoxStatus(redis: Redis, box: Box, now = Date.now()) {
+  const opened = await getBoxOpened(redis, box);
+  let status: BoxStatus = 'active';
+  if (box.startsAt && now < box.startsAt.getTime()) status = 'upcoming';
+  else if (box.endsAt && now >= box.endsAt.getTime()) status = 'ended';
+  else if (box.supply !== undefined && opened >= box.supply) status = 'soldOut';
+  return {
+    status,
+    opened,
+    remaining: box.supply !== undefined ? Math.max(0, box.supply - opened) : null,
+  };
+}
+
+export function describeBoxStatus(status: BoxStatus) {
+  switch (status) {
+    case 'upcoming': return 'Box is not open yet';
+    case 'ended': return 'Box has ended';
+    case 'soldOut': return 'Box is sold out';
+    default: return 'Box is open';
+  }
+}
+
+/** Count one open against the box's supply. False if it is used up; always true without a supply. */
+export async function reserveBoxSupply(redis: Redis, box: Box): Promise<boolean> {
+  if (box.supply === undefined) {
+    await redis.incr(openedKey(box.id));
+    return true;
+  }
+  return (await redis.eval(RESERVE_SUPPLY_LUA, 1, openedKey(box.id), box.supply)) === 1;
+}
+
+/** Give back a supply reservation for an open that didn't go ahead. */
+export async function releaseBoxSupply(redis: Redis, box: Box) {
+  await redis.decr(openedKey(box.id));
+}
@@ -0,0 +1,88 @@
+import {
+  AccountMeta,
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+
+import { getAsset, getAssetProof } from './das.js';
+
+/**
+ * Transfers of Bubblegum compressed NFTs, encoded by hand so we don't need the Umi stack.
+ * Leaf data and the Merkle proof come from DAS; proof nodes already stored in the tree's
+ * canopy are left out so the transaction stays small.
+ */
+
+export const BUBBLEGUM_PROGRAM_ID = new PublicKey('BGUMAp9Gq7iTEuizy4pqaxsTyUCBK68MDfK752saRPUY');
+const SPL_NOOP_PROGRAM_ID = new PublicKey('noopb9bkMVfRPU8AsbpTUg8AQkHtKwMYZiFUjNRtMmV');
+const SPL_ACCOUNT_COMPRESSION_PROGRAM_ID = new PublicKey('cmtDvXumGCrqC1Age74AVPhSRVXJMd8PJS91L8KbNCK');
+
+// Anchor discriminator of bubblegum::transfer
+const TRANSFER_DISCRIMINATOR = Buffer.from([163, 52, 200, 231, 140, 3, 69, 186]);
+
+// spl-account-compression ConcurrentMerkleTree layout (v1 header)
+const TREE_HEADER_SIZE = 56;
+
+/**
+ * Canopy depth of a concurrent Merkle tree account, derived from its size:
+ * header + tree (changelog buffer and rightmost path) + canopy nodes.
+ */
+function getCanopyDepth(data: Buffer): number {
+  const maxBufferSize = data.readUInt32LE(2);
+  const maxDepth = data.readUInt32LE(6);
+  const pathSize = 32 * maxDepth + 40; // nodes + leaf/root + index + padding
+  const treeSize = 24 + maxBufferSize * pathSize + pathSize;
+  const canopyBytes = data.length - TREE_HEADER_SIZE - treeSize;
+  return canopyBytes > 0 ? Math.log2(canopyBytes / 32 + 2) - 1 : 0;
+}
+
+export async function buildCompressedNftTransferInstructions(
+  connection: Connection,
+  assetId: string,
+  owner: PublicKey,
+  recipient: PublicKey
+): Promise<TransactionInstruction[]> {
+  const [asset, proof] = await Promise.all([getAsset(connection, assetId), getAssetProof(connection, assetId)]);
+  if (!asset.compression?.compressed) throw new Error(`Asset ${assetId} is not compressed`);
+  if (asset.ownership.owner !== owner.toBase58()) throw new Error(`Asset ${assetId} is not owned by ${owner.toBase58()}`);
+
+  const merkleTree = new PublicKey(proof.tree_id);
+  const treeAccount = await connection.getAccountInfo(merkleTree);
+  if (!treeAccount) throw new Error(`Merkle tree ${merkleTree.toBase58()} not found`);
+  const canopyDepth = getCanopyDepth(treeAccount.data);
+  const proofPath: AccountMeta[] = proof.proof
+    .slice(0, proof.proof.length - canopyDepth)
+    .map((node) => ({ pubkey: new PublicKey(node), isSigner: false, isWritable: false }));
+
+  const [treeAuthority] = PublicKey.findProgramAddressSync([merkleTree.toBuffer()], BUBBLEGUM_PROGRAM_ID);
+  const leafDelegate = asset.ownership.delegate ? new PublicKey(asset.ownership.delegate) : owner;
+  const index = proof.node_index - 2 ** proof.proof.length;
+
+  const data = Buffer.alloc(8 + 32 * 3 + 8 + 4);
+  TRANSFER_DISCRIMINATOR.copy(data, 0);
+  Buffer.from(bs58.decode(proof.root)).copy(data, 8);
+  Buffer.from(bs58.decode(asset.compression.data_hash)).copy(data, 40);
+  Buffer.from(bs58.decode(asset.compression.creator_hash)).copy(data, 72);
+  data.writeBigUInt64LE(BigInt(asset.compression.leaf_id), 104);
+  data.writeUInt32LE(index, 112);
+
+  return [
+    new TransactionInstruction({
+      programId: BUBBLEGUM_PROGRAM_ID,
+      keys: [
+        { pubkey: treeAuthority, isSigner: false, isWritable: false },
+        { pubkey: owner, isSigner: true, isWritable: false },
+        { pubkey: leafDelegate, isSigner: false, isWritable: false },
+        { pubkey: recipient, isSigner: false, isWritable: false },
+        { pubkey: merkleTree, isSigner: false, isWritable: true },
+        { pubkey: SPL_NOOP_PROGRAM_ID, isSigner: false, isWritable: false },
+        { pubkey: SPL_ACCOUNT_COMPRESSION_PROGRAM_ID, isSigner: false, isWritable: false },
+        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+        ...proofPath,
+      ],
+      data,
+    }),
+  ];
+}
@@ -0,0 +1,85 @@
+import { Connection, Keypair, PublicKey, Transaction, Version } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, unpackMint } from '@solana/spl-token';
+import { Metaplex, keypairIdentity } from '@metaplex-foundation/js';
+
+import { AssetLayer, AssetStandard, createAssetLayer } from './assets.js';
+import { LoadedPayment, loadPaymentTransaction } from './payment.js';
+
+/**
+ * Everything the API reads from or sends to the chain, behind one interface.
+ *
+ * `createRpcChain` talks to a Solana RPC (and Metaplex / DAS for NFTs); the sandbox
+ * (see sandbox.ts) has an in-memory implementation, so the API can run without a network.
+ */
+
+/** One SPL token account: raw amount and the mint's decimals. */
+export type TokenAccount = { mint: string; amount: string; decimals: number; uiAmountString: string };
+
+/** A mint's decimals and the token program that owns it (SPL Token or token-2022). */
+export type MintInfo = { decimals: number; programId: PublicKey };
+
+export type SignatureStatus = { err: unknown; confirmationStatus?: 'processed' | 'confirmed' | 'finalized' };
+
+export type BlockhashInfo = { blockhash: string; lastValidBlockHeight: number };
+
+export interface ChainGateway {
+  /** NFTs of every enabled standard: listing and transfer instructions. */
+  assets: AssetLayer;
+  getVersion(): Promise<Version>;
+  getBalance(address: PublicKey): Promise<number>;
+  getMintInfo(mint: PublicKey): Promise<MintInfo>;
+  /** Token accounts of `owner` under both token programs. */
+  getTokenAccounts(owner: PublicKey): Promise<TokenAccount[]>;
+  /** A confirmed transaction, flattened for payment verification (see payment.ts). */
+  loadPayment(signature: string): Promise<{ ok: true; payment: LoadedPayment } | { ok: false; err: string }>;
+  getLatestBlockhash(): Promise<BlockhashInfo>;
+  getBlockHeight(): Promise<number>;
+  getSignatureStatus(signature: string): Promise<SignatureStatus | null>;
+  /** Send a signed transaction and wait until it is confirmed or its blockhash expires. */
+  sendAndConfirm(tx: Transaction, blockhash: BlockhashInfo): Promise<{ err: unknown }>;
+}
+
+/** Whether a token account holds a single indivisible token, i.e. could be an NFT. */
+export function isNftAccount(account: TokenAccount): boolean {
+  return account.decimals === 0 && account.amount === '1';
+}
+
+export function createRpcChain(deps: { connection: Connection; treasury: Keypair; standards: AssetStandard[] }): ChainGateway {
+  const { connection, treasury, standards } = deps;
+  const mx = Metaplex.make(connection).use(keypairIdentity(treasury));
+
+  async function getTokenAccounts(owner: PublicKey): Promise<TokenAccount[]> {
+    const [classic, token2022] = await Promise.all([
+      connection.getParsedTokenAccountsByOwner(owner, { programId: TOKEN_PROGRAM_ID }),
+      connection.getParsedTokenAccountsByOwner(owner, { programId: TOKEN_2022_PROGRAM_ID }),
+    ]);
+    return [...classic.value, ...token2022.value].map(({ account }) => {
+      const { mint, tokenAmount } = account.data.parsed.info;
+      return { mint, amount: tokenAmount.amount, decimals: tokenAmount.decimals, uiAmountString: tokenAmount.uiAmountString };
+    });
+  }
+
+  return {
+    assets: createAssetLayer({ connection, mx, standards, getTokenAccounts }),
+    getVersion: () => connection.getVersion(),
+    getBalance: (address) => connection.getBalance(address),
+    async getMintInfo(mint) {
+      const account = await connection.getAccountInfo(mint);
+      if (!account) throw new Error(`Mint ${mint.toBase58()} not found`);
+      return { decimals: unpackMint(mint, account, account.owner).decimals, programId: account.owner };
+    },
+    getTokenAccounts,
+    loadPayment: (signature) => loadPaymentTransaction(connection, signature),
+    getLatestBlockhash: () => connection.getLatestBlockhash(),
+    getBlockHeight: () => connection.getBlockHeight('confirmed'),
+    async getSignatureStatus(signature) {
+      const { value } = await connection.getSignatureStatuses([signature], { searchTransactionHistory: true });
+      return value[0];
+    },
+    async sendAndConfirm(tx, { blockhash, lastValidBlockHeight }) {
+      const signature = await connection.sendRawTransaction(tx.serialize());
+      const result = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+      return { err: result.value.err };
+    },
+  };
+}
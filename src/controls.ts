@@ -0,0 +1,60 @@
+import Redis from 'ioredis';
+
+/**
+ * Operator controls: pausing opens and banning wallets.
+ *
+ * Both live in Redis hashes so every instance sees them at once. A pause applies to one
+ * box or, without a box, to every box; `/prepare-payment` and `/open` refuse paused boxes
+ * and banned wallets (a payment verified meanwhile is kept as a credit, as usual).
+ */
+
+export type Pause = { box: string | null; reason: string; by: string; at: number };
+
+export type Ban = { owner: string; reason: string; by: string; at: number };
+
+const PAUSES_KEY = 'admin:pauses';
+const BANS_KEY = 'admin:bans';
+const ALL_BOXES = '*';
+
+export async function pauseOpening(redis: Redis, input: Omit<Pause, 'at'>): Promise<Pause> {
+  const pause: Pause = { ...input, at: Date.now() };
+  await redis.hset(PAUSES_KEY, input.box ?? ALL_BOXES, JSON.stringify(pause));
+  return pause;
+}
+
+/** Lift the pause of one box, or the global pause when `box` is null. False if there was none. */
+export async function resumeOpening(redis: Redis, box: string | null): Promise<boolean> {
+  return (await redis.hdel(PAUSES_KEY, box ?? ALL_BOXES)) === 1;
+}
+
+export async function listPauses(redis: Redis): Promise<Pause[]> {
+  return (await redis.hvals(PAUSES_KEY)).map((raw) => JSON.parse(raw) as Pause);
+}
+
+/** The pause that stops opens of `box`, global first. Null when it can be opened. */
+export async function getPause(redis: Redis, box: string): Promise<Pause | null> {
+  const [all, own] = await redis.hmget(PAUSES_KEY, ALL_BOXES, box);
+  const raw = all ?? own;
+  return raw ? (JSON.parse(raw) as Pause) : null;
+}
+
+export async function banWallet(redis: Redis, input: Omit<Ban, 'at'>): Promise<Ban> {
+  const ban: Ban = { ...input, at: Date.now() };
+  await redis.hset(BANS_KEY, input.owner, JSON.stringify(ban));
+  return ban;
+}
+
+/** False if the wallet wasn't banned. */
+export async function unbanWallet(redis: Redis, owner: string): Promise<boolean> {
+  return (await redis.hdel(BANS_KEY, owner)) === 1;
+}
+
+export async function getBan(redis: Redis, owner: string): Promise<Ban | null> {
+  const raw = await redis.hget(BANS_KEY, owner);
+  return raw ? (JSON.parse(raw) as Ban) : null;
+}
+
+/** Every ban, newest first. */
+export async function listBans(redis: Redis): Promise<Ban[]> {
+  return (await redis.hvals(BANS_KEY)).map((raw) => JSON.parse(raw) as Ban).sort((a, b) => b.at - a.at);
+}
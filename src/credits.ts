@@ -0,0 +1,171 @@
+import { PublicKey } from '@solana/web3.js';
+import Redis from 'ioredis';
+
+import { PrizeKind } from './rewards.js';
+import { rawToUiAmountString } from './utils.js';
+
+/**
+ * Credits for verified payments that couldn't be used.
+ *
+ * When `/open` verifies a payment but then turns the open down (limit reached, paused,
+ * intent expired, ...), the payment becomes a credit instead of being lost. A credit can
+ * pay for a later open or be refunded on-chain, exactly once: every status change goes
+ * through a compare-and-set script.
+ *
+ * Credits in `spending` are indexed by when they were taken. One left there by an open that
+ * died before rolling is given back by `recoverSpendingCredits`.
+ */
+
+export type CreditStatus = 'available' | 'spending' | 'spent' | 'refunding' | 'refunded';
+
+export type Credit = {
+  id: string; // the payment signature
+  owner: string;
+  box?: string; // the box the payment was for (missing = default box); the credit only opens that box
+  intentId: string;
+  clientSeed: string;
+  payment: { currency: 'SOL' | 'TOKEN'; mint?: string; amount: string; decimals?: number }; // raw amount paid to the treasury
+  reason: string;
+  status: CreditStatus;
+  refundPayoutId?: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+function creditKey(id: string) {
+  return `credit:${id}`;
+}
+function ownerCreditsKey(owner: string) {
+  return `credits:owner:${owner}`;
+}
+const SPENDING_KEY = 'credits:spending';
+
+// KEYS = credit key, spending index; ARGV = owner ('' = any), expected status, new status, now, extra fields (JSON)
+const TRANSITION_LUA = `
+local raw = redis.call('GET', KEYS[1])
+if not raw then return nil end
+local credit = cjson.decode(raw)
+if (ARGV[1] ~= '' and credit.owner ~= ARGV[1]) or credit.status ~= ARGV[2] then return nil end
+credit.status = ARGV[3]
+credit.updatedAt = tonumber(ARGV[4])
+for k, v in pairs(cjson.decode(ARGV[5])) do credit[k] = v end
+raw = cjson.encode(credit)
+redis.call('SET', KEYS[1], raw)
+if ARGV[3] == 'spending' then
+  redis.call('ZADD', KEYS[2], ARGV[4], credit.id)
+else
+  redis.call('ZREM', KEYS[2], credit.id)
+end
+return raw
+`;
+
+/** Store a credit for a verified payment. Idempotent per payment signature. */
+export async function createCredit(
+  redis: Redis,
+  input: Omit<Credit, 'status' | 'createdAt' | 'updatedAt'>
+): Promise<Credit> {
+  const now = Date.now();
+  const credit: Credit = { ...input, status: 'available', createdAt: now, updatedAt: now };
+  const created = await redis.set(creditKey(credit.id), JSON.stringify(credit), 'NX');
+  if (!created) {
+    const existing = await getCredit(redis, credit.id);
+    if (existing) return existing;
+  }
+  await redis.sadd(ownerCreditsKey(credit.owner), credit.id);
+  return credit;
+}
+
+export async function getCredit(redis: Redis, id: string): Promise<Credit | null> {
+  const raw = await redis.get(creditKey(id));
+  return raw ? (JSON.parse(raw) as Credit) : null;
+}
+
+/** All credits of an owner, newest first. */
+export async function listCredits(redis: Redis, owner: PublicKey): Promise<Credit[]> {
+  const ids = await redis.smembers(ownerCreditsKey(owner.toBase58()));
+  if (ids.length === 0) return [];
+  const raw = await redis.mget(ids.map(creditKey));
+  return raw
+    .filter((r): r is string => Boolean(r))
+    .map((r) => JSON.parse(r) as Credit)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+async function transition(
+  redis: Redis,
+  id: string,
+  owner: PublicKey | null,
+  from: CreditStatus,
+  to: CreditStatus,
+  extra: Partial<Credit> = {}
+): Promise<Credit | null> {
+  const raw = await redis.eval(
+    TRANSITION_LUA,
+    2,
+    creditKey(id),
+    SPENDING_KEY,
+    owner ? owner.toBase58() : '',
+    from,
+    to,
+    Date.now(),
+    JSON.stringify(extra)
+  );
+  return raw ? (JSON.parse(raw as string) as Credit) : null;
+}
+
+/** Take an available credit of `owner` to pay for an open. Null if it isn't available. */
+export function takeCreditForOpen(redis: Redis, id: string, owner: PublicKey) {
+  return transition(redis, id, owner, 'available', 'spending');
+}
+
+/** The open paid by the credit didn't go ahead; make it available again. */
+export function restoreCredit(redis: Redis, id: string) {
+  return transition(redis, id, null, 'spending', 'available');
+}
+
+export function markCreditSpent(redis: Redis, id: string) {
+  return transition(redis, id, null, 'spending', 'spent');
+}
+
+/**
+ * Give back credits that have been `spending` for more than `staleMs`. Those whose open
+ * rolled (`rolled(id)`) are left alone: finishing that open marks them spent. Returns the
+ * credits made available again.
+ */
+export async function recoverSpendingCredits(
+  redis: Redis,
+  staleMs: number,
+  rolled: (id: string) => Promise<boolean>
+): Promise<Credit[]> {
+  const ids = await redis.zrangebyscore(SPENDING_KEY, 0, Date.now() - staleMs, 'LIMIT', 0, 100);
+  const restored: Credit[] = [];
+  for (const id of ids) {
+    if (await rolled(id)) continue;
+    const credit = await restoreCredit(redis, id);
+    if (credit) restored.push(credit);
+    else await redis.zrem(SPENDING_KEY, id); // no longer spending, or gone
+  }
+  return restored;
+}
+
+/** Take an available credit of `owner` for a refund. Null if it isn't available. */
+export function takeCreditForRefund(redis: Redis, id: string, owner: PublicKey) {
+  return transition(redis, id, owner, 'available', 'refunding');
+}
+
+export function markCreditRefunded(redis: Redis, id: string, refundPayoutId: string) {
+  return transition(redis, id, null, 'refunding', 'refunded', { refundPayoutId });
+}
+
+/**
+ * The payment of a credit as a prize for the payout outbox, so refunds get the same retries.
+ * Token refunds send the raw amount paid; `amount` is only for display.
+ */
+export function refundPrize(credit: Credit): PrizeKind {
+  const { payment } = credit;
+  if (payment.currency === 'SOL') {
+    return { kind: 'SOL', lamports: Number(payment.amount), label: 'Refund' };
+  }
+  const display = payment.decimals === undefined ? payment.amount : rawToUiAmountString(BigInt(payment.amount), payment.decimals);
+  return { kind: 'TOKEN', mint: payment.mint!, amount: Number(display), rawAmount: payment.amount, label: 'Refund' };
+}
@@ -0,0 +1,67 @@
+import { Connection } from '@solana/web3.js';
+
+/**
+ * Minimal client for the Digital Asset Standard (DAS) read API served by RPCs such as
+ * Helius or Triton. Only needed for compressed NFTs and Core assets, which have no
+ * token accounts to scan.
+ */
+
+export type DasAsset = {
+  id: string;
+  interface: string; // 'V1_NFT' | 'ProgrammableNFT' | 'MplCoreAsset' | ...
+  burnt?: boolean;
+  content?: { metadata?: { name?: string; symbol?: string } };
+  grouping?: { group_key: string; group_value: string; verified?: boolean }[];
+  ownership: { owner: string; delegate?: string | null };
+  compression?: {
+    compressed: boolean;
+    tree: string;
+    leaf_id: number;
+    data_hash: string;
+    creator_hash: string;
+  };
+};
+
+export type DasAssetProof = {
+  root: string;
+  proof: string[];
+  node_index: number;
+  leaf: string;
+  tree_id: string;
+};
+
+const PAGE_LIMIT = 1000;
+
+async function dasCall<T>(connection: Connection, method: string, params: unknown): Promise<T> {
+  const res = await fetch(connection.rpcEndpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: method, method, params }),
+  });
+  if (!res.ok) throw new Error(`DAS ${method} failed: HTTP ${res.status}`);
+  const body = (await res.json()) as { result?: T; error?: { message?: string } };
+  if (body.error) throw new Error(`DAS ${method} failed: ${body.error.message || JSON.stringify(body.error)}`);
+  return body.result as T;
+}
+
+/** Every asset held by `owner`, across all pages. */
+export async function getAssetsByOwner(connection: Connection, owner: string): Promise<DasAsset[]> {
+  const all: DasAsset[] = [];
+  for (let page = 1; ; page++) {
+    const result = await dasCall<{ items: DasAsset[] }>(connection, 'getAssetsByOwner', {
+      ownerAddress: owner,
+      page,
+      limit: PAGE_LIMIT,
+    });
+    all.push(...result.items);
+    if (result.items.length < PAGE_LIMIT) return all;
+  }
+}
+
+export async function getAsset(connection: Connection, id: string): Promise<DasAsset> {
+  return dasCall<DasAsset>(connection, 'getAsset', { id });
+}
+
+export async function getAssetProof(connection: Connection, id: string): Promise<DasAssetProof> {
+  return dasCall<DasAssetProof>(connection, 'getAssetProof', { id });
+}
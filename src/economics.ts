@@ -0,0 +1,181 @@
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+
+import { choosePrize, normalizeWeights, PrizeKind, Weighted } from './rewards.js';
+
+/**
+ * Monte Carlo model of a prize table's economics, used by the `simulate` CLI.
+ *
+ * Rolls go through the server's own `choosePrize`, so the simulated odds are exactly the
+ * odds of the live table. Prizes are valued in lamports: SOL prizes at face value, NFTs at
+ * a floor price, tokens at a price per token (0 when unknown). Drawdown and insolvency
+ * follow the treasury's SOL balance only (fees in, SOL prizes out), as the solvency guard
+ * does; NFTs come from the prize inventory and tokens from the treasury's token accounts.
+ */
+
+export type PrizeValues = {
+  nftFloorLamports: number;
+  // Lamports per whole token, by mint
+  tokenPriceLamports: Record<string, number>;
+};
+
+export type SimulationConfig = {
+  feeLamports: number;
+  values: PrizeValues;
+  opensPerDay: number;
+  days: number;
+  runs: number;
+  startBalanceLamports: number;
+  seed: number;
+};
+
+export type Distribution = { mean: number; p50: number; p90: number; p99: number; max: number };
+
+export type SimulationReport = {
+  opens: number;
+  feeSOL: number;
+  // Expected value of one open to the player, from the normalized weights and as simulated
+  expectedValueSOL: number;
+  simulatedValueSOL: number;
+  houseEdge: number;
+  stdDevSOL: number;
+  varianceSOL2: number;
+  winProbability: number;
+  prizes: { label: string; kind: PrizeKind['kind']; valueSOL: number; probability: number; frequency: number }[];
+  // Per run of `days` days, in SOL: largest fall from a running peak, and the net result
+  drawdownSOL: Distribution;
+  netSOL: Distribution;
+  startBalanceSOL: number;
+  // Share of runs in which the SOL balance couldn't cover a SOL prize at some point
+  insolvencyProbability: number;
+};
+
+/** Value of a prize to the winner, in lamports. */
+export function prizeValueLamports(prize: PrizeKind, values: PrizeValues): number {
+  switch (prize.kind) {
+    case 'NOTHING': return 0;
+    case 'SOL': return prize.lamports;
+    case 'NFT': return values.nftFloorLamports;
+    case 'TOKEN': return prize.amount * (values.tokenPriceLamports[prize.mint] ?? 0);
+    case 'BUNDLE': return prize.items.reduce((s, item) => s + prizeValueLamports(item, values), 0);
+  }
+}
+
+/** SOL leaving the treasury's balance for a prize, in lamports. */
+function prizeSolLamports(prize: PrizeKind): number {
+  if (prize.kind === 'SOL') return prize.lamports;
+  if (prize.kind === 'BUNDLE') return prize.items.reduce((s, item) => s + prizeSolLamports(item), 0);
+  return 0;
+}
+
+function prizeLabel(prize: PrizeKind): string {
+  return prize.kind === 'NOTHING' ? 'Nothing' : prize.label;
+}
+
+/** Exact expected value of one open in lamports, from the normalized weights. */
+export function expectedValueLamports(prizes: Weighted<PrizeKind>[], values: PrizeValues): number {
+  return normalizeWeights(prizes).reduce((s, { p, item }) => s + p * prizeValueLamports(item, values), 0);
+}
+
+/** Seeded generator of rolls in [0, 1) with 53 bits, so runs are reproducible. */
+function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+  return () => ((next() >>> 5) * 67108864 + (next() >>> 6)) / 9007199254740992;
+}
+
+function distribution(samples: number[]): Distribution {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+  const toSol = (lamports: number) => lamports / LAMPORTS_PER_SOL;
+  return {
+    mean: toSol(samples.reduce((s, x) => s + x, 0) / samples.length),
+    p50: toSol(at(0.5)),
+    p90: toSol(at(0.9)),
+    p99: toSol(at(0.99)),
+    max: toSol(sorted[sorted.length - 1]),
+  };
+}
+
+/** Simulate `runs` treasuries over `days` days of `opensPerDay` opens each. */
+export function simulateEconomics(prizes: Weighted<PrizeKind>[], cfg: SimulationConfig): SimulationReport {
+  const rng = createRng(cfg.seed);
+  const opensPerRun = cfg.opensPerDay * cfg.days;
+  const probabilities = normalizeWeights(prizes);
+  // choosePrize returns the table's own items, so wins can be counted by identity
+  const index = new Map(prizes.map((p, i) => [p.item, i]));
+  const counts = new Array<number>(prizes.length).fill(0);
+  let nothingFallthrough = 0;
+  let sum = 0;
+  let sumSquares = 0;
+  const drawdowns: number[] = [];
+  const nets: number[] = [];
+  let insolventRuns = 0;
+
+  for (let run = 0; run < cfg.runs; run++) {
+    let balance = cfg.startBalanceLamports;
+    let peak = balance;
+    let drawdown = 0;
+    let insolvent = false;
+    for (let i = 0; i < opensPerRun; i++) {
+      const prize = choosePrize(rng(), prizes);
+      const slot = index.get(prize);
+      if (slot === undefined) nothingFallthrough++;
+      else counts[slot]++;
+
+      const value = prizeValueLamports(prize, cfg.values);
+      sum += value;
+      sumSquares += value * value;
+
+      balance += cfg.feeLamports;
+      const sol = prizeSolLamports(prize);
+      if (sol > balance) insolvent = true;
+      balance -= sol;
+      if (balance > peak) peak = balance;
+      else if (peak - balance > drawdown) drawdown = peak - balance;
+    }
+    drawdowns.push(drawdown);
+    nets.push(balance - cfg.startBalanceLamports);
+    if (insolvent) insolventRuns++;
+  }
+
+  const opens = cfg.runs * opensPerRun;
+  const mean = sum / opens;
+  const variance = sumSquares / opens - mean * mean;
+  const expected = expectedValueLamports(prizes, cfg.values);
+  const lamportsSq = LAMPORTS_PER_SOL * LAMPORTS_PER_SOL;
+  const nothing = probabilities.reduce((s, { p, item }) => s + (item.kind === 'NOTHING' ? p : 0), 0);
+
+  return {
+    opens,
+    feeSOL: cfg.feeLamports / LAMPORTS_PER_SOL,
+    expectedValueSOL: expected / LAMPORTS_PER_SOL,
+    simulatedValueSOL: mean / LAMPORTS_PER_SOL,
+    houseEdge: cfg.feeLamports > 0 ? (cfg.feeLamports - expected) / cfg.feeLamports : 0,
+    stdDevSOL: Math.sqrt(Math.max(0, variance)) / LAMPORTS_PER_SOL,
+    varianceSOL2: Math.max(0, variance) / lamportsSq,
+    winProbability: 1 - nothing,
+    prizes: [
+      ...probabilities.map(({ p, item }, i) => ({
+        label: prizeLabel(item),
+        kind: item.kind,
+        valueSOL: prizeValueLamports(item, cfg.values) / LAMPORTS_PER_SOL,
+        probability: p,
+        frequency: counts[i] / opens,
+      })),
+      // Only reached through floating point rounding at the end of the table
+      ...(nothingFallthrough > 0
+        ? [{ label: 'Nothing (rounding)', kind: 'NOTHING' as const, valueSOL: 0, probability: 0, frequency: nothingFallthrough / opens }]
+        : []),
+    ],
+    drawdownSOL: distribution(drawdowns),
+    netSOL: distribution(nets),
+    startBalanceSOL: cfg.startBalanceLamports / LAMPORTS_PER_SOL,
+    insolvencyProbability: insolventRuns / cfg.runs,
+  };
+}
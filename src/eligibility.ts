@@ -0,0 +1,103 @@
+import { PublicKey } from '@solana/web3.js';
+import Redis from 'ioredis';
+
+import { inCollection } from './assets.js';
+import { ChainGateway, isNftAccount } from './chain.js';
+import { collectionKey } from './gates.js';
+
+/**
+ * What an owner holds of the gate collections and tokens (see gates.ts for the rules).
+ *
+ * All of an owner's token accounts are fetched once (both token programs), which gives
+ * every gate token balance and the candidate NFT mints; NFTs of every enabled standard
+ * are then listed through the asset layer (token metadata in batches, DAS for
+ * compressed and Core assets). Results are cached in Redis for a short time and dropped when
+ * the owner opens a box. RPC failures throw `EligibilityError` instead of reading as
+ * "no access".
+ */
+
+export type Eligibility = {
+  owner: string;
+  collections: { collection: string; count: number; mints: string[] }[];
+  tokens: { mint: string; balance: number }[];
+  checkedAt: number;
+};
+
+export class EligibilityError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'EligibilityError';
+  }
+}
+
+export type EligibilityService = {
+  /**
+   * Holdings for `owner`, from cache when fresh. `fresh` reads them from the chain
+   * regardless (and caches the result), for checks that let a payment through.
+   */
+  check(owner: PublicKey, opts?: { fresh?: boolean }): Promise<Eligibility & { cached: boolean }>;
+  /** Drop the cached result, e.g. after the owner opened a box. */
+  invalidate(owner: PublicKey): Promise<void>;
+};
+
+function cacheKey(owner: PublicKey) {
+  return `elig:${owner.toBase58()}`;
+}
+
+export function createEligibilityService(deps: {
+  chain: ChainGateway;
+  redis: Redis;
+  collections: string[];
+  mints: string[];
+  cacheTtlMs: number;
+}): EligibilityService {
+  const { chain, redis, collections, mints, cacheTtlMs } = deps;
+
+  async function load(owner: PublicKey): Promise<Eligibility> {
+    let accounts;
+    try {
+      accounts = await chain.getTokenAccounts(owner);
+    } catch (e: any) {
+      throw new EligibilityError(`Could not load token accounts: ${e?.message || e}`, e);
+    }
+
+    const balances = new Map<string, number>();
+    const nftMints: PublicKey[] = [];
+    for (const account of accounts) {
+      const balance = Number(account.uiAmountString);
+      balances.set(account.mint, (balances.get(account.mint) || 0) + balance);
+      if (isNftAccount(account)) nftMints.push(new PublicKey(account.mint));
+    }
+
+    let owned;
+    try {
+      owned = await chain.assets.listOwned(owner, { nftMints });
+    } catch (e: any) {
+      throw new EligibilityError(`Could not load NFTs: ${e?.message || e}`, e);
+    }
+
+    return {
+      owner: owner.toBase58(),
+      collections: collections.map((collection) => {
+        const key = collectionKey(collection);
+        const ids = owned.filter((a) => inCollection(a, key)).map((a) => a.id);
+        return { collection, count: ids.length, mints: ids };
+      }),
+      tokens: mints.map((mint) => ({ mint, balance: balances.get(mint) || 0 })),
+      checkedAt: Date.now(),
+    };
+  }
+
+  return {
+    async check(owner, opts = {}) {
+      const raw = opts.fresh ? null : await redis.get(cacheKey(owner));
+      if (raw) return { ...(JSON.parse(raw) as Eligibility), cached: true };
+      const result = await load(owner);
+      if (cacheTtlMs > 0) await redis.set(cacheKey(owner), JSON.stringify(result), 'PX', cacheTtlMs);
+      return { ...result, cached: false };
+    },
+    async invalidate(owner) {
+      await redis.del(cacheKey(owner));
+    },
+  };
+}
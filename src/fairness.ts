@@ -0,0 +1,189 @@
+import { createHash, createHmac, randomBytes } from 'crypto';
+import Redis from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+
+import { acquireLock, releaseLock } from './locks.js';
+
+/**
+ * Provably fair commit-reveal rolls.
+ *
+ * The server publishes sha256(serverSeed) before any roll uses it. Each roll is
+ *   HMAC-SHA256(serverSeed, `${clientSeed}:${signature}:${nonce}`)
+ * mapped to a float in [0, 1). Once a seed is rotated out it is revealed, so anyone
+ * can recompute every roll made with it. A paid open rolls with the seed committed to
+ * when its payment was prepared, so the hash shown then is the one that counts.
+ */
+
+export type ServerSeed = {
+  id: string;
+  hash: string;
+  createdAt: number;
+  rotatedAt?: number;
+  seed?: string; // only present once revealed
+};
+
+export type RollRecord = {
+  signature: string;
+  serverSeedId: string;
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+  roll: number;
+  prizeTableVersion: string;
+  createdAt: number;
+};
+
+const CURRENT_KEY = 'fair:seed:current';
+const REVEALED_KEY = 'fair:seeds:revealed';
+const ROTATE_LOCK_KEY = 'fair:seed:rotate-lock';
+const REVEALED_KEEP = 1000;
+
+function seedKey(id: string) {
+  return `fair:seed:${id}`;
+}
+function rollKey(signature: string) {
+  return `fair:roll:${signature}`;
+}
+
+export function hashServerSeed(seed: string): string {
+  return createHash('sha256').update(seed).digest('hex');
+}
+
+/** Deterministic roll in [0, 1) from the committed inputs (52 bits of the HMAC). */
+export function computeRoll(serverSeed: string, clientSeed: string, signature: string, nonce: number): number {
+  const hmac = createHmac('sha256', serverSeed)
+    .update(`${clientSeed}:${signature}:${nonce}`)
+    .digest('hex');
+  return parseInt(hmac.slice(0, 13), 16) / 2 ** 52;
+}
+
+async function createServerSeed(redis: Redis): Promise<ServerSeed & { seed: string }> {
+  const seed = randomBytes(32).toString('hex');
+  const record = { id: uuidv4(), seed, hash: hashServerSeed(seed), createdAt: Date.now() };
+  await redis.hset(seedKey(record.id), {
+    seed: record.seed,
+    hash: record.hash,
+    createdAt: String(record.createdAt),
+    nonce: '0',
+  });
+  return record;
+}
+
+async function loadSeed(redis: Redis, id: string) {
+  const h = await redis.hgetall(seedKey(id));
+  if (!h.hash) return null;
+  return {
+    id,
+    seed: h.seed,
+    hash: h.hash,
+    createdAt: Number(h.createdAt),
+    rotatedAt: h.rotatedAt ? Number(h.rotatedAt) : undefined,
+    nonce: Number(h.nonce || 0),
+  };
+}
+
+/**
+ * Replace the active server seed with a fresh one and reveal the old one.
+ * Guarded by a short lock so concurrent instances don't rotate twice.
+ */
+export async function rotateServerSeed(redis: Redis): Promise<ServerSeed | null> {
+  const lock = await acquireLock(redis, ROTATE_LOCK_KEY, 5000);
+  if (!lock) return null;
+  try {
+    const previousId = await redis.get(CURRENT_KEY);
+    const next = await createServerSeed(redis);
+    await redis.set(CURRENT_KEY, next.id);
+    if (previousId) {
+      await redis.hset(seedKey(previousId), 'rotatedAt', String(Date.now()));
+      await redis.lpush(REVEALED_KEY, previousId);
+      await redis.ltrim(REVEALED_KEY, 0, REVEALED_KEEP - 1);
+    }
+    return { id: next.id, hash: next.hash, createdAt: next.createdAt };
+  } finally {
+    await releaseLock(redis, ROTATE_LOCK_KEY, lock);
+  }
+}
+
+/** Get the active seed, creating one on first use or rotating it once it is older than `rotateMs`. */
+async function getActiveSeed(redis: Redis, rotateMs: number) {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const id = await redis.get(CURRENT_KEY);
+    const seed = id ? await loadSeed(redis, id) : null;
+    if (seed && Date.now() - seed.createdAt < rotateMs) return seed;
+    await rotateServerSeed(redis);
+  }
+  const id = await redis.get(CURRENT_KEY);
+  const seed = id ? await loadSeed(redis, id) : null;
+  if (!seed) throw new Error('No active server seed');
+  return seed;
+}
+
+/** Public commitment for the seed that will be used for the next rolls. */
+export async function getServerSeedCommitment(redis: Redis, rotateMs: number): Promise<ServerSeed> {
+  const { id, hash, createdAt } = await getActiveSeed(redis, rotateMs);
+  return { id, hash, createdAt };
+}
+
+/** Whether seed `id` exists and hasn't been rotated out (revealed) yet. */
+export async function isServerSeedActive(redis: Redis, id: string): Promise<boolean> {
+  const seed = await loadSeed(redis, id);
+  return Boolean(seed && !seed.rotatedAt);
+}
+
+/** Most recently revealed (rotated out) server seeds, newest first. */
+export async function listRevealedSeeds(redis: Redis, limit = 20): Promise<Array<ServerSeed & { seed: string }>> {
+  const ids = await redis.lrange(REVEALED_KEY, 0, limit - 1);
+  const seeds = await Promise.all(ids.map((id) => loadSeed(redis, id)));
+  return seeds
+    .filter((s): s is NonNullable<typeof s> => Boolean(s))
+    .map(({ id, seed, hash, createdAt, rotatedAt }) => ({ id, seed, hash, createdAt, rotatedAt }));
+}
+
+/**
+ * Roll for a payment signature with server seed `serverSeedId` (the active seed when
+ * missing) and record the inputs so the outcome can be verified later. A signature is
+ * rolled once: calling again returns the recorded roll.
+ */
+export async function rollForSignature(
+  redis: Redis,
+  signature: string,
+  clientSeed: string,
+  rotateMs: number,
+  prizeTableVersion: string,
+  serverSeedId?: string
+): Promise<RollRecord> {
+  const seed = serverSeedId ? await loadSeed(redis, serverSeedId) : await getActiveSeed(redis, rotateMs);
+  if (!seed) throw new Error(`Server seed ${serverSeedId} not found`);
+  const nonce = await redis.hincrby(seedKey(seed.id), 'nonce', 1);
+  const record: RollRecord = {
+    signature,
+    serverSeedId: seed.id,
+    serverSeedHash: seed.hash,
+    clientSeed,
+    nonce,
+    roll: computeRoll(seed.seed, clientSeed, signature, nonce),
+    prizeTableVersion,
+    createdAt: Date.now(),
+  };
+  const created = await redis.set(rollKey(signature), JSON.stringify(record), 'NX');
+  if (!created) {
+    const existing = await redis.get(rollKey(signature));
+    if (existing) return JSON.parse(existing) as RollRecord;
+  }
+  return record;
+}
+
+/**
+ * Look up a recorded roll. The server seed is only included once it has been rotated out.
+ */
+export async function getRollVerification(
+  redis: Redis,
+  signature: string
+): Promise<{ record: RollRecord; serverSeed: string | null } | null> {
+  const raw = await redis.get(rollKey(signature));
+  if (!raw) return null;
+  const record = JSON.parse(raw) as RollRecord;
+  const seed = await loadSeed(redis, record.serverSeedId);
+  const revealed = Boolean(seed?.rotatedAt);
+  return { record, serverSeed: revealed && seed ? seed.seed : null };
+}
@@ -0,0 +1,131 @@
+/* eslint-disable no-console */
+import { Response } from 'express';
+import Redis from 'ioredis';
+
+import { MiddlewareRequest } from './http.js';
+
+/**
+ * Live feed of opens and payouts over Server-Sent Events.
+ *
+ * Events are appended to a capped Redis stream (the backlog, whose ids are the SSE event
+ * ids) and announced on a pub/sub channel, so every API instance pushes every event to
+ * its own clients. A client reconnecting with `Last-Event-ID` first gets what it missed
+ * from the backlog; live events that arrive meanwhile are held back until the replay is
+ * done, so nothing is sent twice or out of order. Comment lines keep idle connections
+ * alive through proxies.
+ */
+
+export type FeedEventType = 'open' | 'payout';
+
+export type FeedEvent = { id: string; type: FeedEventType; data: Record<string, unknown> };
+
+const STREAM_KEY = 'feed:events';
+const CHANNEL = 'feed';
+
+// The stream is written raw, never as JSON
+type Client = { res: Response<never>; lastId: string; ready: boolean; pending: FeedEvent[] };
+
+/** Compare two stream ids (`<ms>-<seq>`). */
+function compareIds(a: string, b: string): number {
+  const [aMs, aSeq = '0'] = a.split('-');
+  const [bMs, bSeq = '0'] = b.split('-');
+  const ms = BigInt(aMs) - BigInt(bMs);
+  if (ms !== 0n) return ms < 0n ? -1 : 1;
+  const seq = BigInt(aSeq) - BigInt(bSeq);
+  return seq === 0n ? 0 : seq < 0n ? -1 : 1;
+}
+
+function isStreamId(id: string) {
+  return /^\d+-\d+$/.test(id);
+}
+
+export type Feed = {
+  /** Append an event to the backlog and push it to every instance's clients. Never throws. */
+  publish(type: FeedEventType, data: Record<string, unknown>): Promise<void>;
+  /** Express handler for the SSE stream. */
+  handle(req: MiddlewareRequest<unknown, { lastEventId?: string }>, res: Response<never>): Promise<void>;
+  clientCount(): number;
+  stop(): void;
+};
+
+export function createFeed(deps: { redis: Redis; backlog: number; heartbeatMs: number }): Feed {
+  const { redis, backlog, heartbeatMs } = deps;
+  const clients = new Set<Client>();
+  // Pub/sub needs a connection of its own
+  const subscriber = redis.duplicate();
+
+  function write(client: Client, event: FeedEvent) {
+    client.res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    client.lastId = event.id;
+  }
+
+  function deliver(client: Client, event: FeedEvent) {
+    if (!client.ready) {
+      client.pending.push(event);
+    } else if (!client.lastId || compareIds(event.id, client.lastId) > 0) {
+      write(client, event);
+    }
+  }
+
+  subscriber.subscribe(CHANNEL).catch((e) => console.error('[feed] Subscribe failed:', e));
+  subscriber.on('message', (_channel: string, message: string) => {
+    const event = JSON.parse(message) as FeedEvent;
+    for (const client of clients) deliver(client, event);
+  });
+
+  const heartbeat = setInterval(() => {
+    for (const client of clients) client.res.write(`: ping ${Date.now()}\n\n`);
+  }, heartbeatMs);
+
+  return {
+    async publish(type, data) {
+      try {
+        const id = await redis.xadd(STREAM_KEY, 'MAXLEN', '~', backlog, '*', 'type', type, 'data', JSON.stringify(data));
+        const event: FeedEvent = { id: id!, type, data };
+        await redis.publish(CHANNEL, JSON.stringify(event));
+      } catch (e) {
+        console.error(`[feed] Publishing ${type} failed:`, e);
+      }
+    },
+
+    async handle(req, res) {
+      const lastEventId = String(req.get('last-event-id') || req.query.lastEventId || '');
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      res.write('retry: 3000\n\n');
+
+      const client: Client = { res, lastId: '', ready: false, pending: [] };
+      clients.add(client);
+      req.on('close', () => clients.delete(client));
+
+      try {
+        if (isStreamId(lastEventId)) {
+          client.lastId = lastEventId;
+          const entries = await redis.xrange(STREAM_KEY, `(${lastEventId}`, '+', 'COUNT', backlog);
+          for (const [id, fields] of entries) {
+            const type = fields[fields.indexOf('type') + 1] as FeedEventType;
+            const data = JSON.parse(fields[fields.indexOf('data') + 1]);
+            write(client, { id, type, data });
+          }
+        }
+      } catch (e) {
+        console.error('[feed] Backlog replay failed:', e);
+      }
+      client.ready = true;
+      for (const event of client.pending.splice(0)) deliver(client, event);
+    },
+
+    clientCount: () => clients.size,
+
+    stop() {
+      clearInterval(heartbeat);
+      for (const client of clients) client.res.end();
+      clients.clear();
+      subscriber.disconnect();
+    },
+  };
+}
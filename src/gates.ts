@@ -0,0 +1,206 @@
+/* eslint-disable no-console */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import YAML from 'yaml';
+import { PublicKey } from '@solana/web3.js';
+
+import { Eligibility } from './eligibility.js';
+
+/**
+ * Declarative access rules.
+ *
+ * A gate is either a collection (hold at least `minCount` NFTs of it) or a token mint
+ * (hold at least `minAmount`, UI units). Each gate grants a tier with its own opens per
+ * window and cooldown. When several tiers match, `combine` decides: `best` uses the tier
+ * with the most opens, `stack` adds up the opens of every matched tier over the longest
+ * of their cooldowns.
+ */
+
+const MintSchema = z.string().refine((s) => {
+  try {
+    new PublicKey(s);
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: 'Invalid mint address' });
+
+const TierSchema = z.object({
+  opensPerWindow: z.number().int().positive(),
+  cooldownHours: z.number().positive(),
+}).strict();
+
+const GateSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('collection'),
+    id: z.string().min(1).optional(),
+    // Verified collection address, or a legacy collection name (matched by the ELMNT symbol)
+    collection: z.string().min(1),
+    minCount: z.number().int().positive().default(1),
+    tier: z.string().min(1),
+  }).strict(),
+  z.object({
+    type: z.literal('token'),
+    id: z.string().min(1).optional(),
+    mint: MintSchema,
+    minAmount: z.number().positive(),
+    tier: z.string().min(1),
+  }).strict(),
+]);
+
+export const GateConfigSchema = z.object({
+  combine: z.enum(['best', 'stack']).default('best'),
+  tiers: z.record(TierSchema),
+  gates: z.array(GateSchema).min(1),
+}).strict().superRefine((c, ctx) => {
+  c.gates.forEach((g, i) => {
+    if (!c.tiers[g.tier]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['gates', i, 'tier'], message: `Unknown tier '${g.tier}'` });
+    }
+  });
+});
+
+export type GateConfig = z.infer<typeof GateConfigSchema>;
+export type Gate = GateConfig['gates'][number];
+
+export type GateMatch = {
+  gate: string;
+  type: Gate['type'];
+  tier: string;
+  matched: boolean;
+  reason: string;
+};
+
+export type Access = {
+  eligible: boolean;
+  tiers: string[];
+  opensPerWindow: number;
+  windowMs: number;
+  gates: GateMatch[];
+};
+
+export function gateId(gate: Gate) {
+  if (gate.id) return gate.id;
+  return gate.type === 'collection'
+    ? `collection:${gate.collection}:${gate.minCount}`
+    : `token:${gate.mint}:${gate.minAmount}`;
+}
+
+/** Collection as `inCollection` expects it: a PublicKey for verified collections, else the legacy name. */
+export function collectionKey(collection: string): PublicKey | string {
+  try {
+    return new PublicKey(collection);
+  } catch {
+    return collection;
+  }
+}
+
+/** Gates as they were hard-coded before: 1+ NFTs or any gate token = 1 open, 10+ NFTs = 2 opens. */
+export function legacyGateConfig(env: {
+  GATE_COLLECTION_ADDRESS: string;
+  GATE_TOKEN_ADDRESS: string;
+  OPEN_FEE_TOKEN: number;
+  GATE_TOKEN1_ADDRESS?: string;
+  GATE_TOKEN2_ADDRESS?: string;
+  GATE_TOKEN3_ADDRESS?: string;
+  OPEN_TOKEN1_AMOUNT: number;
+  OPEN_TOKEN2_AMOUNT: number;
+  OPEN_TOKEN3_AMOUNT: number;
+  COOLDOWN_HOURS: number;
+}): GateConfig {
+  const tokens = [
+    { mint: env.GATE_TOKEN_ADDRESS, minAmount: env.OPEN_FEE_TOKEN },
+    { mint: env.GATE_TOKEN1_ADDRESS, minAmount: env.OPEN_TOKEN1_AMOUNT },
+    { mint: env.GATE_TOKEN2_ADDRESS, minAmount: env.OPEN_TOKEN2_AMOUNT },
+    { mint: env.GATE_TOKEN3_ADDRESS, minAmount: env.OPEN_TOKEN3_AMOUNT },
+  ];
+  return GateConfigSchema.parse({
+    combine: 'best',
+    tiers: {
+      holder: { opensPerWindow: 1, cooldownHours: env.COOLDOWN_HOURS },
+      superHolder: { opensPerWindow: 2, cooldownHours: env.COOLDOWN_HOURS },
+    },
+    gates: [
+      { type: 'collection', collection: env.GATE_COLLECTION_ADDRESS, minCount: 1, tier: 'holder' },
+      { type: 'collection', collection: env.GATE_COLLECTION_ADDRESS, minCount: 10, tier: 'superHolder' },
+      ...tokens
+        .filter((t): t is { mint: string; minAmount: number } => Boolean(t.mint))
+        .map((t) => ({ type: 'token', mint: t.mint, minAmount: t.minAmount, tier: 'holder' })),
+    ],
+  });
+}
+
+/**
+ * Load gates from `file` (JSON or YAML). If the file doesn't exist, `fallback` is used;
+ * an invalid file throws.
+ */
+export async function loadGateConfig(file: string, fallback: () => GateConfig): Promise<{ config: GateConfig; source: string }> {
+  let text: string;
+  try {
+    text = await fs.readFile(file, 'utf8');
+  } catch (e: any) {
+    if (e?.code !== 'ENOENT') throw e;
+    console.log(`[gates] ${file} not found, using gates from env`);
+    return { config: fallback(), source: 'env' };
+  }
+  const ext = path.extname(file).toLowerCase();
+  const raw = ext === '.yaml' || ext === '.yml' ? YAML.parse(text) : JSON.parse(text);
+  return { config: GateConfigSchema.parse(raw), source: file };
+}
+
+/** Collections and token mints the eligibility service has to look up for these gates. */
+export function gateRequirements(config: GateConfig) {
+  const collections = [...new Set(config.gates.flatMap((g) => (g.type === 'collection' ? [g.collection] : [])))];
+  const mints = [...new Set(config.gates.flatMap((g) => (g.type === 'token' ? [g.mint] : [])))];
+  return { collections, mints };
+}
+
+/** Match an owner's holdings against the gates and combine the matched tiers. */
+export function evaluateGates(config: GateConfig, holdings: Eligibility): Access {
+  const gates = config.gates.map((gate): GateMatch => {
+    if (gate.type === 'collection') {
+      const count = holdings.collections.find((c) => c.collection === gate.collection)?.count ?? 0;
+      return {
+        gate: gateId(gate),
+        type: gate.type,
+        tier: gate.tier,
+        matched: count >= gate.minCount,
+        reason: `holds ${count} of ${gate.collection} (needs ${gate.minCount})`,
+      };
+    }
+    const balance = holdings.tokens.find((t) => t.mint === gate.mint)?.balance ?? 0;
+    return {
+      gate: gateId(gate),
+      type: gate.type,
+      tier: gate.tier,
+      matched: balance >= gate.minAmount,
+      reason: `holds ${balance} of ${gate.mint} (needs ${gate.minAmount})`,
+    };
+  });
+
+  const tiers = [...new Set(gates.filter((g) => g.matched).map((g) => g.tier))];
+  if (tiers.length === 0) return { eligible: false, tiers, opensPerWindow: 0, windowMs: 0, gates };
+
+  const matched = tiers.map((name) => ({ name, ...config.tiers[name] }));
+  if (config.combine === 'stack') {
+    return {
+      eligible: true,
+      tiers,
+      opensPerWindow: matched.reduce((s, t) => s + t.opensPerWindow, 0),
+      windowMs: Math.max(...matched.map((t) => t.cooldownHours)) * 60 * 60 * 1000,
+      gates,
+    };
+  }
+  // Most opens wins; on a tie, the shorter cooldown
+  const best = matched.reduce((a, b) =>
+    b.opensPerWindow > a.opensPerWindow || (b.opensPerWindow === a.opensPerWindow && b.cooldownHours < a.cooldownHours) ? b : a
+  );
+  return {
+    eligible: true,
+    tiers: [best.name],
+    opensPerWindow: best.opensPerWindow,
+    windowMs: best.cooldownHours * 60 * 60 * 1000,
+    gates,
+  };
+}
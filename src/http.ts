@@ -0,0 +1,163 @@
+/* eslint-disable no-console */
+import { NextFunction, Request, Response } from 'express';
+import { z, ZodError, ZodTypeAny } from 'zod';
+
+import { EligibilityError } from './eligibility.js';
+
+/**
+ * Request validation and error responses shared by every route.
+ *
+ * An error response is `{ ok: false, code, error }`: `code` is one of `ERROR_CODES` and
+ * stays stable for clients to branch on, `error` is a message for humans. Exceptions we
+ * don't expect are logged and answered with INTERNAL_ERROR, without their message.
+ *
+ * Each route declares zod schemas for its params, query, body and success response (see
+ * schemas.ts). Invalid requests are answered with INVALID_REQUEST and the failing fields.
+ * A response that doesn't match its schema is logged and still sent: by then the route may
+ * have committed (a box opened, a payout queued), so the client needs the real body. With
+ * the app setting `strict responses` (on in the sandbox) it is replaced by INTERNAL_ERROR,
+ * so tests catch the mismatch.
+ */
+
+export const ERROR_CODES = {
+  INVALID_REQUEST: 400,
+  PAYMENT_INVALID: 400,
+  INVALID_CONFIG: 400,
+  TRANSACTION_FAILED: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  WALLET_BANNED: 403,
+  NOT_ELIGIBLE: 403,
+  OPEN_LIMIT_REACHED: 403,
+  ASSETS_EXHAUSTED: 403,
+  BOX_UNAVAILABLE: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  SIGNATURE_USED: 409,
+  PAYMENT_KEPT_AS_CREDIT: 409,
+  CREDIT_UNAVAILABLE: 409,
+  SEED_ROTATED: 409,
+  RATE_LIMITED: 429,
+  INTERNAL_ERROR: 500,
+  UPSTREAM_ERROR: 502,
+  OPENING_PAUSED: 503,
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+export type RouteSchemas = {
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+  response?: ZodTypeAny;
+};
+
+type Parsed<S> = S extends ZodTypeAny ? z.output<S> : Record<string, unknown>;
+
+/** A request that passed `validate(schemas)`: params, query and body are the parsed values. */
+export type RouteRequest<R extends RouteSchemas> = Request<Parsed<R['params']>, unknown, Parsed<R['body']>, Parsed<R['query']>>;
+
+/**
+ * The request of middleware shared by many routes (validation, sessions, rate limits): loose
+ * enough to sit in front of any route's handler, with `Body` and `Query` for what it reads.
+ */
+export type MiddlewareRequest<Body = unknown, Query = object> = Request<object, unknown, Body, Query>;
+
+/**
+ * The route a request matched, as `validate` finds it in `res.locals.matchedRoute`: Express
+ * resets `req.baseUrl`, `req.route` and `req.params` once the router moves on, so anything
+ * logging the route after the response (e.g. the admin audit log) reads it from here.
+ */
+export type MatchedRoute = { path: string; params: Record<string, unknown> };
+
+/** The response of a route: `json` takes its success body (errors go through `fail`). */
+export type RouteResponse<R extends RouteSchemas> = Response<R['response'] extends ZodTypeAny ? z.input<R['response']> : never>;
+
+export const ErrorResponseSchema = z.object({
+  ok: z.literal(false),
+  code: z.enum(Object.keys(ERROR_CODES) as [ErrorCode, ...ErrorCode[]]),
+  error: z.string(),
+}).passthrough();
+
+/** An error to answer with `code`; throw it from a handler or pass it to `sendError`. */
+export class ApiError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly extra: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/** Send an error response with the status of `code`. */
+export function fail(res: Response, code: ErrorCode, error: string, extra: Record<string, unknown> = {}) {
+  return res.status(ERROR_CODES[code]).json({ ok: false, code, error, ...extra });
+}
+
+function describeIssues(error: ZodError) {
+  return error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+}
+
+/** Answer a caught exception: known errors with their code and message, anything else as INTERNAL_ERROR. */
+export function sendError(res: Response, e: unknown) {
+  if (e instanceof ApiError) return fail(res, e.code, e.message, e.extra);
+  if (e instanceof ZodError) return fail(res, 'INVALID_REQUEST', 'Invalid request', { issues: describeIssues(e) });
+  if (e instanceof EligibilityError) return fail(res, 'UPSTREAM_ERROR', e.message);
+  console.error(e);
+  return fail(res, 'INTERNAL_ERROR', 'Internal error');
+}
+
+/**
+ * Express middleware for a route's schemas: replaces `req.params`, `req.query` and
+ * `req.body` with their parsed values (defaults applied, strings coerced), and checks
+ * JSON responses against `response` (errors against `ErrorResponseSchema`).
+ */
+export function validate(schemas: RouteSchemas) {
+  return (req: MiddlewareRequest, res: Response, next: NextFunction) => {
+    const matched: MatchedRoute = { path: `${req.baseUrl}${req.route?.path ?? req.path}`, params: { ...req.params } };
+    res.locals.matchedRoute = matched;
+    const issues: { path: string; message: string }[] = [];
+    for (const part of ['params', 'query', 'body'] as const) {
+      const schema = schemas[part];
+      if (!schema) continue;
+      const result = schema.safeParse(req[part] ?? {});
+      if (result.success) req[part] = result.data;
+      else issues.push(...describeIssues(result.error).map((i) => ({ ...i, path: [part, i.path].filter(Boolean).join('.') })));
+    }
+    if (issues.length) return fail(res, 'INVALID_REQUEST', 'Invalid request', { issues });
+
+    const json = res.json.bind(res);
+    res.json = (body?: unknown) => {
+      const schema = isErrorBody(body) ? ErrorResponseSchema : schemas.response;
+      const result = schema?.safeParse(body);
+      if (result && !result.success) {
+        console.error(`[schemas] ${req.method} ${matched.path} response doesn't match:`, describeIssues(result.error));
+        if (req.app.get('strict responses')) {
+          res.status(ERROR_CODES.INTERNAL_ERROR);
+          return json({ ok: false, code: 'INTERNAL_ERROR', error: 'Internal error' });
+        }
+      }
+      return json(body);
+    };
+    next();
+  };
+}
+
+function isErrorBody(body: unknown) {
+  return typeof body === 'object' && body !== null && 'ok' in body && body.ok === false;
+}
+
+/** The `type` body-parser sets on its errors, e.g. `entity.parse.failed`. */
+function bodyParserErrorType(err: unknown) {
+  return typeof err === 'object' && err !== null && 'type' in err ? err.type : undefined;
+}
+
+/** Express error handler (mount last): malformed JSON bodies and errors passed to `next`. */
+export function errorHandler(err: unknown, _req: MiddlewareRequest, res: Response, _next: NextFunction) {
+  const type = bodyParserErrorType(err);
+  if (type === 'entity.parse.failed') return fail(res, 'INVALID_REQUEST', 'Malformed JSON body');
+  if (type === 'entity.too.large') return fail(res, 'INVALID_REQUEST', 'Request body too large');
+  return sendError(res, err);
+}
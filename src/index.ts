@@ -5,40 +5,133 @@ import morgan from 'morgan';
 import { z } from 'zod';
 import Redis from 'ioredis';
 import bs58 from 'bs58';
-import { v4 as uuidv4 } from 'uuid';
 import {
   clusterApiUrl,
   Connection,
   Keypair,
   LAMPORTS_PER_SOL,
   PublicKey,
-  SystemProgram,
-  Transaction,
-  sendAndConfirmTransaction,
-  ComputeBudgetProgram,
 } from '@solana/web3.js';
-import {
-  Metaplex,
-  keypairIdentity
-} from '@metaplex-foundation/js';
 import cors from "cors";
+import { randomBytes } from 'crypto';
+import { AddressInfo } from 'net';
 
-import { choosePrize } from './rewards.js';
-import { findCollectionCountForOwner, checkGateTokenHoldings, pickPrizeNftFromTreasury, transferNftTo } from './nft.js';
-import { logPrize } from './utils.js';
+import { choosePrize, PrizeKind } from './rewards.js';
+import { createEligibilityService, EligibilityError } from './eligibility.js';
+import { collectionKey, evaluateGates, gateRequirements, legacyGateConfig, loadGateConfig } from './gates.js';
+import { maskOwner } from './utils.js';
+import { describePrize, isPayablePrize } from './prizePayouts.js';
+import { appendOpen, getDailyStats, getOwnerHistory, getRecentWins } from './ledger.js';
+import {
+  chargeAsset,
+  claimSignature,
+  getAssetCharges,
+  getOpensRemaining,
+  releaseAsset,
+  releaseOpen,
+  releaseSignature,
+  reserveOpen,
+  resetOpens,
+} from './limits.js';
+import {
+  computeRoll,
+  getRollVerification,
+  getServerSeedCommitment,
+  isServerSeedActive,
+  hashServerSeed,
+  listRevealedSeeds,
+  rollForSignature,
+} from './fairness.js';
+import { createPayout, getPayout, PayoutContext, processPayout, retryPayout, startPayoutWorker } from './payouts.js';
+import {
+  buildIntentMemoInstruction,
+  consumeOpenIntent,
+  createOpenIntent,
+  getOpenIntent,
+  parseIntentMemo,
+} from './intents.js';
+import {
+  buildPaymentInstructions,
+  buildPaymentTransaction,
+  getPaymentQuote,
+  verifyPayment,
+} from './payment.js';
+import {
+  describePrizeTable,
+  getActivePrizeTable,
+  getPrizeTableVersion,
+  NoPrizesLeftError,
+  reloadPrizeTable,
+  watchPrizeTable,
+  withPrizeKindsDisabled,
+} from './prizeTable.js';
+import { getInventoryStatus, markLowStock, startInventoryRefresher } from './inventory.js';
+import { ASSET_STANDARDS, AssetStandard, inCollection } from './assets.js';
+import { ChainGateway, createRpcChain, isNftAccount } from './chain.js';
+import { createMemoryChain, createMemoryRedis, loadSandboxSeed, MemoryChain } from './sandbox.js';
+import { applyPayoutLimits, checkOpenAllowed, getSolvencyReport, SolvencyConfig } from './solvency.js';
+import {
+  Box,
+  boxGateConfig,
+  DEFAULT_BOX_ID,
+  describeBoxStatus,
+  getBoxStatus,
+  loadBoxConfig,
+  releaseBoxSupply,
+  reserveBoxSupply,
+} from './boxes.js';
+import { createFeed } from './feed.js';
+import { createWebhooks, loadWebhookConfig, startWebhookWorker } from './webhooks.js';
+import { applyProgression, describeProgress, getProgress, ProgressionConfig, recordProgress } from './progression.js';
+import {
+  Credit,
+  createCredit,
+  getCredit,
+  listCredits,
+  markCreditRefunded,
+  markCreditSpent,
+  recoverSpendingCredits,
+  refundPrize,
+  restoreCredit,
+  takeCreditForOpen,
+  takeCreditForRefund,
+} from './credits.js';
+import { auditAdminActions, createAdminAuth, listAudit } from './admin.js';
+import { bearerToken, completeLogin, createLoginChallenge, createSessionGuard, getSession, revokeSession } from './sessions.js';
+import { banWallet, getBan, getPause, listBans, listPauses, pauseOpening, resumeOpening, unbanWallet } from './controls.js';
+import { ApiError, ErrorCode, errorHandler, fail, MiddlewareRequest, RouteRequest, RouteResponse, RouteSchemas, sendError, validate } from './http.js';
+import { acquireLock, releaseLock } from './locks.js';
+import {
+  deletePendingOpen,
+  getPendingOpen,
+  hasPendingOpen,
+  listStalePendingOpens,
+  OpenStep,
+  PendingOpen,
+  pendingOpenLockKey,
+  savePendingOpen,
+} from './pendingOpens.js';
+import { createRateLimiter, loadRateLimitConfig } from './rateLimits.js';
+import * as routes from './schemas.js';
 
 /* -------------------- ENV & SETUP -------------------- */
 
+const PITY_KINDS: PrizeKind['kind'][] = ['NFT', 'SOL', 'TOKEN', 'BUNDLE'];
+
 const EnvSchema = z.object({
+  // 1 = offline sandbox: in-memory chain seeded from SANDBOX_SEED_PATH and in-memory Redis
+  SANDBOX: z.enum(['0', '1']).default('0').transform((v) => v === '1'),
+  SANDBOX_SEED_PATH: z.string().min(1).default('sandbox.json'),
   RPC_URL: z.string().min(1).default(clusterApiUrl('mainnet-beta')),
-  TREASURY_SECRET_KEY: z.string().min(1),
+  // Required unless SANDBOX=1, where a throwaway treasury is generated when unset
+  TREASURY_SECRET_KEY: z.string().min(1).optional(),
   TREASURY_WALLET: z.string().min(1),
   GATE_COLLECTION_ADDRESS: z.string().min(1),
   PRIZE_COLLECTION_ADDRESS: z.string().min(1),
   GATE_TOKEN_ADDRESS: z.string().min(1),
-  GATE_TOKEN1_ADDRESS: z.string().min(1),
-  GATE_TOKEN2_ADDRESS: z.string().min(1),
-  GATE_TOKEN3_ADDRESS: z.string().min(1),
+  GATE_TOKEN1_ADDRESS: z.string().min(1).optional(),
+  GATE_TOKEN2_ADDRESS: z.string().min(1).optional(),
+  GATE_TOKEN3_ADDRESS: z.string().min(1).optional(),
   OPEN_TOKEN1_AMOUNT: z.coerce.number().default(10000),
   OPEN_TOKEN2_AMOUNT: z.coerce.number().default(10000),
   OPEN_TOKEN3_AMOUNT: z.coerce.number().default(10000),
@@ -46,8 +139,105 @@ const EnvSchema = z.object({
   PORT: z.coerce.number().default(8080),
   OPEN_FEE_LAMPORTS: z.coerce.number().default(1_000_000), // 0.001 SOL
   OPEN_FEE_TOKEN: z.coerce.number().default(1000),
+  // Fee when paying in the SPL token instead of SOL (UI amount of OPEN_FEE_TOKEN_MINT, defaults to the gate token)
+  OPEN_FEE_TOKEN_MINT: z.string().min(1).optional(),
+  OPEN_FEE_TOKEN_AMOUNT: z.coerce.number().positive().default(1000),
   COOLDOWN_HOURS: z.coerce.number().default(24),
+  FAIR_SEED_ROTATE_HOURS: z.coerce.number().positive().default(24),
+  PAYMENT_COMPUTE_UNIT_LIMIT: z.coerce.number().int().positive().default(50_000),
+  PAYMENT_PRIORITY_FEE_MICROLAMPORTS: z.coerce.number().int().nonnegative().default(10_000),
+  OPEN_INTENT_TTL_SECONDS: z.coerce.number().int().positive().default(120),
+  PAYOUT_MAX_ATTEMPTS: z.coerce.number().int().positive().default(8),
+  PAYOUT_RETRY_BASE_MS: z.coerce.number().int().positive().default(5_000),
+  PAYOUT_WORKER_INTERVAL_MS: z.coerce.number().int().positive().default(2_000),
+  PRIZE_TABLE_PATH: z.string().min(1).default('prizes.json'),
+  // Box types (JSON or YAML); when missing, only the default box (OPEN_FEE_*, PRIZE_TABLE_PATH) exists
+  BOXES_PATH: z.string().min(1).default('boxes.json'),
+  // Prize NFT inventory: refresh interval, and below how many available NFTs NFT prizes are switched off
+  INVENTORY_REFRESH_MS: z.coerce.number().int().positive().default(60_000),
+  NFT_LOW_STOCK_THRESHOLD: z.coerce.number().int().nonnegative().default(1),
+  // Gates and tiers (JSON or YAML); when missing, built from GATE_* and COOLDOWN_HOURS
+  GATES_PATH: z.string().min(1).default('gates.json'),
+  // wallet: opens are counted per wallet; asset: each open is also charged to one gating NFT
+  OPEN_CHARGE_MODE: z.enum(['wallet', 'asset']).default('wallet'),
+  // Comma-separated NFT standards to support: nft, pnft, cnft, core (cnft and core need a DAS-enabled RPC_URL)
+  ASSET_STANDARDS: z.string().default('nft,pnft').transform((s, ctx) => {
+    const standards = s.split(',').map((x) => x.trim()).filter(Boolean);
+    const unknown = standards.filter((x) => !ASSET_STANDARDS.includes(x as AssetStandard));
+    if (unknown.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown asset standards: ${unknown.join(', ')}` });
+    }
+    return standards as AssetStandard[];
+  }),
+  ADMIN_API_KEY: z.string().min(16).optional(),
+  // More admin API keys, as comma-separated name:key pairs (the name shows in the audit log)
+  ADMIN_API_KEYS: z.string().default('').transform((s, ctx) => {
+    const keys = s.split(',').map((x) => x.trim()).filter(Boolean).map((pair) => {
+      const i = pair.indexOf(':');
+      return { name: pair.slice(0, i), key: pair.slice(i + 1) };
+    });
+    if (keys.some((k) => !k.name || k.key.length < 16)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'ADMIN_API_KEYS must be name:key pairs with keys of at least 16 characters' });
+    }
+    return keys;
+  }),
+  // Comma-separated wallets that may call the admin API with signed requests
+  ADMIN_WALLETS: z.string().default('').transform((s, ctx) => {
+    const wallets = s.split(',').map((x) => x.trim()).filter(Boolean);
+    for (const wallet of wallets) {
+      try {
+        new PublicKey(wallet);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid admin wallet: ${wallet}` });
+      }
+    }
+    return wallets;
+  }),
+  ADMIN_SIGNATURE_MAX_AGE_SECONDS: z.coerce.number().int().positive().default(300),
+  // Sign-In With Solana: 1 = owner-scoped routes need a session for that owner
+  SESSIONS_REQUIRED: z.enum(['0', '1']).default('1').transform((v) => v === '1'),
+  // Domain named in the sign-in message (the frontend's host)
+  AUTH_DOMAIN: z.string().min(1).default('daily-free-box'),
+  AUTH_NONCE_TTL_SECONDS: z.coerce.number().int().positive().default(300),
+  SESSION_TTL_SECONDS: z.coerce.number().int().positive().default(3600),
+  // Daily payout budgets (UTC day); 0 = unlimited
+  DAILY_BUDGET_SOL_LAMPORTS: z.coerce.number().int().nonnegative().default(0),
+  DAILY_BUDGET_NFT: z.coerce.number().int().nonnegative().default(0),
+  DAILY_BUDGET_TOKEN: z.coerce.number().int().nonnegative().default(0),
+  // What to do when the treasury or a budget can't cover a prize
+  BUDGET_EXHAUSTED_MODE: z.enum(['pause', 'downgrade']).default('pause'),
+  BUDGET_DOWNGRADE_TO: z.string().min(1).default('NOTHING'),
+  LOW_BALANCE_WARN_LAMPORTS: z.coerce.number().int().nonnegative().default(5 * LAMPORTS_PER_SOL),
+  ELIGIBILITY_CACHE_SECONDS: z.coerce.number().int().nonnegative().default(30),
+  // Pity timer: after this many NOTHING results in a row the next roll only draws PITY_PRIZE_KINDS (0 = off)
+  PITY_AFTER_NOTHING: z.coerce.number().int().nonnegative().default(0),
+  PITY_PRIZE_KINDS: z.string().default('NFT').transform((s, ctx) => {
+    const kinds = s.split(',').map((x) => x.trim()).filter(Boolean);
+    const unknown = kinds.filter((k) => !PITY_KINDS.includes(k as PrizeKind['kind']));
+    if (kinds.length === 0 || unknown.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `PITY_PRIZE_KINDS must list kinds of ${PITY_KINDS.join(', ')}` });
+    }
+    return kinds as PrizeKind['kind'][];
+  }),
+  // Daily streak: each consecutive day after the first adds this to the weight multiplier of real prizes (0 = off)
+  STREAK_BONUS_PER_DAY: z.coerce.number().nonnegative().default(0),
+  STREAK_MAX_DAYS: z.coerce.number().int().positive().default(7),
+  // Webhook endpoints file (JSON or YAML, see webhooks.example.json); no webhooks when missing
+  WEBHOOKS_PATH: z.string().min(1).default('webhooks.json'),
+  WEBHOOK_MAX_ATTEMPTS: z.coerce.number().int().positive().default(8),
+  WEBHOOK_RETRY_BASE_MS: z.coerce.number().int().positive().default(5_000),
+  WEBHOOK_WORKER_INTERVAL_MS: z.coerce.number().int().positive().default(2_000),
+  // Live feed: events kept for Last-Event-ID resume, and the heartbeat interval
+  FEED_BACKLOG: z.coerce.number().int().positive().default(500),
+  FEED_HEARTBEAT_MS: z.coerce.number().int().positive().default(15_000),
+  // Rate limit budgets per policy (JSON or YAML, see rate-limits.example.json); built-in defaults when missing
+  RATE_LIMITS_PATH: z.string().min(1).default('rate-limits.json'),
+  // Proxies in front of the server, so rate limits see the client IP from X-Forwarded-For (0 = none)
+  TRUST_PROXY: z.coerce.number().int().nonnegative().default(0),
   LOG_LEVEL: z.enum(['info', 'debug']).default('info'),
+}).refine((env) => env.SANDBOX || env.TREASURY_SECRET_KEY, {
+  message: 'Required unless SANDBOX=1',
+  path: ['TREASURY_SECRET_KEY'],
 });
 
 const ENV = EnvSchema.parse(process.env);
@@ -73,308 +263,1392 @@ function loadKeypair(secret: string): Keypair {
   return Keypair.fromSecretKey(secretKey);
 }
 
-const connection = new Connection(ENV.RPC_URL, { commitment: 'confirmed' });
-const treasury = loadKeypair(ENV.TREASURY_SECRET_KEY);
+const treasury = ENV.TREASURY_SECRET_KEY ? loadKeypair(ENV.TREASURY_SECRET_KEY) : Keypair.generate();
 const treasuryPubkey = treasury.publicKey;
-const gateCollection = ENV.GATE_COLLECTION_ADDRESS;
 const prizeCollection = ENV.PRIZE_COLLECTION_ADDRESS;
 const feeWallet = new PublicKey(ENV.TREASURY_WALLET);
-const gateToken = new PublicKey(ENV.GATE_TOKEN_ADDRESS);
-const gateToken1 = new PublicKey(ENV.GATE_TOKEN1_ADDRESS);
-const gateToken2 = new PublicKey(ENV.GATE_TOKEN2_ADDRESS);
-const gateToken3 = new PublicKey(ENV.GATE_TOKEN3_ADDRESS);
+const feeTokenMint = new PublicKey(ENV.OPEN_FEE_TOKEN_MINT ?? ENV.GATE_TOKEN_ADDRESS);
 
-const redis = new Redis(ENV.REDIS_URL);
+// The sandbox runs on an in-memory chain and Redis; otherwise the RPC (with Metaplex and DAS for NFTs)
+const sandbox: MemoryChain | null = ENV.SANDBOX
+  ? createMemoryChain({
+    seed: await loadSandboxSeed(ENV.SANDBOX_SEED_PATH),
+    treasury: treasuryPubkey,
+    standards: ENV.ASSET_STANDARDS,
+  })
+  : null;
+const chain: ChainGateway = sandbox ?? createRpcChain({
+  connection: new Connection(ENV.RPC_URL, { commitment: 'confirmed' }),
+  treasury,
+  standards: ENV.ASSET_STANDARDS,
+});
+
+const redis = sandbox ? await createMemoryRedis() : new Redis(ENV.REDIS_URL);
+
+// Sliding-window rate limits per IP and owner: `default` on every route, stricter policies on top
+const rateLimiter = createRateLimiter({ redis, config: await loadRateLimitConfig(ENV.RATE_LIMITS_PATH) });
 
 const app = express();
-app.use(cors());
-app.use(express.json());
+app.set('trust proxy', ENV.TRUST_PROXY);
+// A response that doesn't match its schema fails loudly in the sandbox, and is only logged in production
+app.set('strict responses', ENV.SANDBOX);
+app.use(cors({ exposedHeaders: ['Retry-After', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy'] }));
+// The raw body is kept for admin request signatures
+app.use(express.json({ verify: (req, _res, buf) => { req.rawBody = buf; } }));
 app.use(morgan('dev'));
+app.use(rateLimiter.limit('default'));
+
+
+// Signed event webhooks (box.opened, prize.won, payout.*, inventory.low)
+const webhooks = createWebhooks({
+  redis,
+  endpoints: await loadWebhookConfig(ENV.WEBHOOKS_PATH),
+  maxAttempts: ENV.WEBHOOK_MAX_ATTEMPTS,
+  retryBaseMs: ENV.WEBHOOK_RETRY_BASE_MS,
+});
 
+// Live feed of opens and payouts (SSE), shared across instances through Redis pub/sub
+const feed = createFeed({ redis, backlog: ENV.FEED_BACKLOG, heartbeatMs: ENV.FEED_HEARTBEAT_MS });
 
-// Metaplex for NFT queries
-const mx = Metaplex.make(connection).use(keypairIdentity(treasury));
+const payoutCtx: PayoutContext = {
+  chain,
+  redis,
+  treasury,
+  maxAttempts: ENV.PAYOUT_MAX_ATTEMPTS,
+  retryBaseMs: ENV.PAYOUT_RETRY_BASE_MS,
+  webhooks,
+  feed,
+};
+
+// Who may open and how often
+const gates = await loadGateConfig(ENV.GATES_PATH, () => legacyGateConfig(ENV));
+const eligibility = createEligibilityService({
+  chain,
+  redis,
+  ...gateRequirements(gates.config),
+  cacheTtlMs: ENV.ELIGIBILITY_CACHE_SECONDS * 1000,
+});
+
+// Box types; the routes without a box id open the default box
+const defaultBox: Box = {
+  id: DEFAULT_BOX_ID,
+  name: 'Daily box',
+  prizeTablePath: ENV.PRIZE_TABLE_PATH,
+  fee: { lamports: ENV.OPEN_FEE_LAMPORTS, tokenAmount: ENV.OPEN_FEE_TOKEN_AMOUNT },
+};
+const boxList = await loadBoxConfig(ENV.BOXES_PATH, defaultBox, gates.config);
+const boxes = new Map(boxList.map((b) => [b.id, b]));
+const prizeTablePaths = [...new Set(boxList.map((b) => b.prizeTablePath))];
+
+// Active prize table of every box, reloaded when its file changes
+for (const file of prizeTablePaths) {
+  await reloadPrizeTable(redis, file);
+  watchPrizeTable(redis, file);
+}
+
+const solvencyConfig: SolvencyConfig = {
+  budgets: { SOL: ENV.DAILY_BUDGET_SOL_LAMPORTS, NFT: ENV.DAILY_BUDGET_NFT, TOKEN: ENV.DAILY_BUDGET_TOKEN },
+  mode: ENV.BUDGET_EXHAUSTED_MODE,
+  downgradeTo: ENV.BUDGET_DOWNGRADE_TO,
+  lowBalanceLamports: ENV.LOW_BALANCE_WARN_LAMPORTS,
+};
+
+const progressionConfig: ProgressionConfig = {
+  pityAfterNothing: ENV.PITY_AFTER_NOTHING,
+  pityKinds: ENV.PITY_PRIZE_KINDS,
+  streakBonusPerDay: ENV.STREAK_BONUS_PER_DAY,
+  streakMaxDays: ENV.STREAK_MAX_DAYS,
+};
+
+// Owner-scoped routes (eligibility, prepare-payment, open, credits, refunds, history) need a
+// signed-in session for that owner unless SESSIONS_REQUIRED=0
+const requireOwner = createSessionGuard({ redis, required: ENV.SESSIONS_REQUIRED });
+const ownerInQuery = (req: MiddlewareRequest<unknown, { owner?: unknown }>) => req.query.owner;
+const ownerInBody = (req: MiddlewareRequest<{ owner?: unknown }>) => req.body.owner;
+const queryOwner = requireOwner(ownerInQuery);
+const bodyOwner = requireOwner(ownerInBody);
+
+// Per-owner budgets are counted after the session check, so nobody can use up another wallet's.
+// Sign-in has no session to check yet, so it is limited per IP only.
+const rpcLimit = { query: rateLimiter.limit('rpc', ownerInQuery), body: rateLimiter.limit('rpc', ownerInBody) };
+const authLimit = rateLimiter.limit('auth');
 
 /* -------------------- HELPER UTILS -------------------- */
 
-const COOLDOWN_MS = ENV.COOLDOWN_HOURS * 60 * 60 * 1000;
-const HOLDER_LIMIT = 1;
-const SUPER_HOLDER_LIMIT = 2;
-const SUPER_HOLDER_THRESHOLD = 10; // 10+ NFTs in collection
 
-function openKey(owner: PublicKey) {
-  return `opens:${owner.toBase58()}`;
+function nowMs() { return Date.now(); }
+
+const FAIR_SEED_ROTATE_MS = ENV.FAIR_SEED_ROTATE_HOURS * 60 * 60 * 1000;
+const OPEN_INTENT_TTL_MS = ENV.OPEN_INTENT_TTL_SECONDS * 1000;
+// Recovery sweep: pending opens older than this are finished by the sweep, and credits
+// spending for longer than SPENDING_CREDIT_STALE_MS are given back
+const OPEN_RECOVERY_INTERVAL_MS = 30_000;
+const PENDING_OPEN_STALE_MS = 60_000;
+const PENDING_OPEN_LOCK_MS = 5 * 60_000;
+const SPENDING_CREDIT_STALE_MS = 10 * 60_000;
+
+/** The box with id `id` (the default box when empty), or undefined. */
+function findBox(id: unknown): Box | undefined {
+  return boxes.get(id ? String(id) : DEFAULT_BOX_ID);
 }
-function sigKey(sig: string) {
-  return `sig:${sig}`;
+
+/**
+ * Match the owner's holdings (cached unless `fresh`) against the gates of `box`. In asset charge mode, NFTs
+ * charged to another wallet in their window don't count, and `needsAsset` is set when only
+ * collection gates matched, so the open has to be charged to one of `freshMints`.
+ */
+async function checkAccess(owner: PublicKey, box: Box, opts: { fresh?: boolean } = {}) {
+  const holdings = await eligibility.check(owner, opts);
+  const config = boxGateConfig(gates.config, box);
+  if (ENV.OPEN_CHARGE_MODE === 'wallet') {
+    return { holdings, access: evaluateGates(config, holdings), assets: null, freshMints: [], needsAsset: false };
+  }
+
+  const me = owner.toBase58();
+  const owned = holdings.collections.flatMap((c) => c.mints.map((mint) => ({ collection: c.collection, mint })));
+  const charges = await getAssetCharges(redis, owned.map((a) => a.mint), box.id);
+  const assets = owned.map((a, i) => ({
+    ...a,
+    fresh: !charges[i],
+    chargedByOwner: charges[i]?.owner === me,
+    chargedUntil: charges[i]?.until ?? null,
+  }));
+  const usable = {
+    ...holdings,
+    collections: holdings.collections.map((c) => {
+      const mints = assets.filter((a) => a.collection === c.collection && (a.fresh || a.chargedByOwner)).map((a) => a.mint);
+      return { ...c, count: mints.length, mints };
+    }),
+  };
+  const access = evaluateGates(config, usable);
+  return {
+    holdings,
+    access,
+    assets,
+    freshMints: assets.filter((a) => a.fresh).map((a) => a.mint),
+    needsAsset: access.eligible && !access.gates.some((g) => g.matched && g.type === 'token'),
+  };
 }
-function nowMs() { return Date.now(); }
 
-async function getOpensRemaining(
+/**
+ * The box's active prize table, with NFT prizes switched off while the prize inventory is low.
+ * Throws OPENING_PAUSED when that leaves nothing to win (every prize needs an NFT).
+ */
+async function getEffectivePrizeTable(box: Box) {
+  const table = getActivePrizeTable(box.prizeTablePath);
+  const { lowStock } = await getInventoryStatus(redis, ENV.NFT_LOW_STOCK_THRESHOLD);
+  if (!lowStock) return table;
+  return withPrizeKindsDisabled(redis, table, ['NFT']).catch((e) => {
+    if (e instanceof NoPrizesLeftError) throw new ApiError('OPENING_PAUSED', 'Opening is paused: every prize needs an NFT and the prize NFTs are running out');
+    throw e;
+  });
+}
+
+/** A verified payment to the fee wallet, as bound to its open intent. */
+type VerifiedPayment = {
+  signature: string;
+  box: string;
+  intentId: string;
+  clientSeed: string;
+  serverSeedId?: string;
+  payment: Credit['payment'];
+  slot?: number;
+  blockTime?: number;
+};
+
+/**
+ * Load a payment, verify it against the price quoted on the intent named in its memo, and
+ * consume that intent. With `box` set, the intent must be for that box. `payment` is set whenever the payment itself checks out, even if the
+ * intent can't be consumed (paid late, or another payment got there first): that payment
+ * is unused and can be kept as a credit. It stays null for a payment that already opened a box.
+ */
+async function verifyOpenPayment(
   owner: PublicKey,
-  holderCount: number,
-  isTokenHolder: boolean
-): Promise<{ remaining: number; used: number; limit: number; cooldownMs: number }> {
-  const key = openKey(owner);
-  const now = nowMs();
-  const cutoff = now - COOLDOWN_MS;
-
-  // Remove stale entries
-  await redis.zremrangebyscore(key, 0, cutoff);
-
-  // Count used opens
-  const used = await redis.zcard(key);
-
-  // Determine limit based on holder count
-  const limit = holderCount >= SUPER_HOLDER_THRESHOLD ? SUPER_HOLDER_LIMIT : holderCount > 0 || isTokenHolder ? HOLDER_LIMIT : 0;
-  const remaining = Math.max(0, limit - used);
-
-  // Set TTL so Redis key expires automatically
-  await redis.expire(key, Math.ceil(COOLDOWN_MS / 1000));
-
-  // Determine time until next available open (cooldown)
-  let cooldownMs = 0;
-  if (remaining === 0) {
-    // Get oldest entry timestamp
-    const oldestArr = await redis.zrange(key, 0, 0, 'WITHSCORES');
-    if (oldestArr.length === 2) {
-      const oldestTimestamp = parseInt(oldestArr[1], 10);
-      cooldownMs = Math.max(0, COOLDOWN_MS - (now - oldestTimestamp));
-    } else {
-      cooldownMs = COOLDOWN_MS;
-    }
+  sig: string,
+  box: Box | null
+): Promise<{ ok: true; payment: VerifiedPayment } | { ok: false; error: string; payment: VerifiedPayment | null }> {
+  const loaded = await chain.loadPayment(sig);
+  if (!loaded.ok) return { ok: false, error: 'Payment verification failed: ' + loaded.err, payment: null };
+  const intentId = loaded.payment.memos.map(parseIntentMemo).find((id): id is string => Boolean(id));
+  if (!intentId) return { ok: false, error: 'Payment is not bound to an open intent', payment: null };
+  const intent = await getOpenIntent(redis, intentId);
+  if (!intent) return { ok: false, error: 'Unknown or expired open intent', payment: null };
+  const intentBox = intent.box ?? DEFAULT_BOX_ID;
+  if (box && intentBox !== box.id) return { ok: false, error: `Payment is for box '${intentBox}'`, payment: null };
+
+  const check = verifyPayment(loaded.payment, owner, feeWallet, intent.quote);
+  if (!check.ok) {
+    return { ok: false, error: 'Payment verification failed: ' + (check.err || 'unknown'), payment: null };
   }
+  const payment: VerifiedPayment = {
+    signature: sig,
+    box: intentBox,
+    intentId,
+    clientSeed: intent.clientSeed,
+    serverSeedId: intent.serverSeedId,
+    payment: intent.quote.currency === 'TOKEN'
+      ? { currency: 'TOKEN', mint: intent.quote.mint, amount: check.amountToTreasury, decimals: intent.quote.decimals }
+      : { currency: 'SOL', amount: check.amountToTreasury },
+    slot: check.slot,
+    blockTime: check.blockTime,
+  };
 
-  return { remaining, used, limit, cooldownMs };
+  const paidAtMs = check.blockTime ? check.blockTime * 1000 : nowMs();
+  const consumed = await consumeOpenIntent(redis, intentId, owner, sig, paidAtMs);
+  if (!consumed.ok) return { ok: false, error: consumed.err, payment: consumed.spent ? null : payment };
+  return { ok: true, payment };
 }
 
-async function recordOpen(owner: PublicKey) {
-  const key = openKey(owner);
-  await redis.zadd(key, nowMs(), uuidv4());
-  await redis.expire(key, Math.ceil(COOLDOWN_MS / 1000));
+function describeCredit(credit: Credit) {
+  return {
+    id: credit.id,
+    box: credit.box ?? DEFAULT_BOX_ID,
+    status: credit.status,
+    payment: credit.payment,
+    reason: credit.reason,
+    refundPayoutId: credit.refundPayoutId ?? null,
+    createdAt: credit.createdAt,
+    updatedAt: credit.updatedAt,
+  };
 }
 
-async function hasUsedSignature(signature: string): Promise<boolean> {
-  const exists = await redis.get(sigKey(signature));
-  return Boolean(exists);
-}
-async function markSignatureUsed(signature: string) {
-  // Prevent re-use up to 7 days
-  await redis.set(sigKey(signature), '1', 'EX', 7 * 24 * 60 * 60);
+/** Why `owner` can't open `box` right now because of an admin ban or pause, or null. */
+async function checkControls(owner: PublicKey, box: Box): Promise<{ code: ErrorCode; error: string } | null> {
+  if (await getBan(redis, owner.toBase58())) return { code: 'WALLET_BANNED', error: 'Wallet is banned' };
+  const pause = await getPause(redis, box.id);
+  if (pause) return { code: 'OPENING_PAUSED', error: 'Opening is paused' + (pause.reason ? ': ' + pause.reason : '') };
+  return null;
 }
 
-/** Verify that the provided signature paid at least the required fee to the treasury */
-async function verifyPaymentSignature(signature: string, payer: PublicKey, minLamports: number): Promise<{ ok: boolean; lamportsToTreasury: number; slot?: number; blockTime?: number; err?: string }>
-{
+/* -------------------- API ROUTES -------------------- */
+
+/**
+ * Get basic status
+ */
+app.get('/health', validate(routes.HealthRoute), async (_req: RouteRequest<typeof routes.HealthRoute>, res: RouteResponse<typeof routes.HealthRoute>) => {
   try {
-    const tx = await connection.getTransaction(signature, {
-      commitment: 'confirmed',
-      maxSupportedTransactionVersion: 0,
+    const prizeTable = await getEffectivePrizeTable(defaultBox);
+    const solvency = await getSolvencyReport(chain, redis, treasuryPubkey, prizeTable.prizes, solvencyConfig);
+    res.json({
+      ok: true,
+      network: await chain.getVersion().catch(() => null),
+      treasury: treasuryPubkey.toBase58(),
+      treasuryBalanceSOL: solvency.balanceLamports / LAMPORTS_PER_SOL,
+      prizeTable: { version: prizeTable.version, loadedAt: prizeTable.loadedAt },
+      solvency,
     });
-    if (!tx) return { ok: false, lamportsToTreasury: 0, err: 'Transaction not found or not confirmed' };
-    if (tx.meta?.err) return { ok: false, lamportsToTreasury: 0, slot: tx.slot, blockTime: tx.blockTime ?? undefined, err: 'Transaction has error' };
-
-    const keys = tx.transaction.message.getAccountKeys();
-    const payerIndex = keys.staticAccountKeys.findIndex((k) => k.equals(payer));
-    const treasuryIndex = keys.staticAccountKeys.findIndex((k) => k.equals(feeWallet));
-    if (payerIndex === -1 || treasuryIndex === -1 || !tx.meta) {
-      return { ok: false, lamportsToTreasury: 0, slot: tx.slot, blockTime: tx.blockTime ?? undefined, err: 'Required accounts not in transaction' };
-    }
-    const pre = tx.meta.preBalances[payerIndex];
-    const post = tx.meta.postBalances[payerIndex];
-    const preT = tx.meta.preBalances[treasuryIndex];
-    const postT = tx.meta.postBalances[treasuryIndex];
-    const paidFromPayer = pre - post; // includes fee + transfer
-    const receivedByTreasury = postT - preT;
-
-    const ok = receivedByTreasury >= minLamports && paidFromPayer >= minLamports;
-    return { ok, lamportsToTreasury: receivedByTreasury, slot: tx.slot, blockTime: tx.blockTime ?? undefined, err: ok ? undefined : 'Insufficient payment to treasury' };
-  } catch (e: any) {
-    return { ok: false, lamportsToTreasury: 0, err: e?.message || String(e) };
+  } catch (e) {
+    sendError(res, e);
   }
+});
+
+/** A box's active prize table with the normalized probability of each prize. */
+async function describeBoxPrizes(box: Box) {
+  const effective = await getEffectivePrizeTable(box);
+  const table = describePrizeTable(effective);
+  return {
+    ...table,
+    nftPrizesDisabled: effective.version !== getActivePrizeTable(box.prizeTablePath).version,
+    prizes: table.prizes.map(({ item, weight, probability }) => ({ ...describePrize(item), weight, probability })),
+  };
 }
 
-/* -------------------- API ROUTES -------------------- */
+/**
+ * Active prize table with its version hash and the normalized probability of each prize.
+ * While the NFT inventory is low, NFT prizes show with weight 0 (`nftPrizesDisabled`).
+ * OPENING_PAUSED when that leaves no prize.
+ * Query: ?box=<box id> (default box when omitted)
+ */
+app.get('/prizes', validate(routes.PrizesRoute), async (req: RouteRequest<typeof routes.PrizesRoute>, res: RouteResponse<typeof routes.PrizesRoute>) => {
+  try {
+    const box = findBox(req.query.box);
+    if (!box) return fail(res, 'NOT_FOUND', 'Box not found');
+    res.json({ ok: true, box: box.id, ...(await describeBoxPrizes(box)) });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
 
 /**
- * Get basic status
+ * Every box with its fee, tiers, cooldown, schedule, supply and prize odds.
  */
-app.get('/health', async (_req: any, res: any) => {
-  const balance = await connection.getBalance(treasuryPubkey);
-  res.json({
-    ok: true,
-    network: await connection.getVersion().catch(() => null),
-    treasury: treasury.publicKey,
-    treasuryBalanceSOL: balance / LAMPORTS_PER_SOL,
-  });
+app.get('/boxes', validate(routes.BoxesRoute), async (_req: RouteRequest<typeof routes.BoxesRoute>, res: RouteResponse<typeof routes.BoxesRoute>) => {
+  try {
+    const list = await Promise.all(boxList.map(async (box) => ({
+      id: box.id,
+      name: box.name,
+      fee: {
+        lamports: box.fee.lamports,
+        token: box.fee.tokenAmount !== undefined ? { mint: feeTokenMint.toBase58(), amount: box.fee.tokenAmount } : null,
+      },
+      tiers: box.tiers ?? Object.keys(gates.config.tiers),
+      cooldownHours: box.cooldownHours ?? null,
+      startsAt: box.startsAt?.getTime() ?? null,
+      endsAt: box.endsAt?.getTime() ?? null,
+      supply: box.supply ?? null,
+      ...(await getBoxStatus(redis, box)),
+      prizeTable: await describeBoxPrizes(box),
+    })));
+    res.json({ ok: true, boxes: list });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/**
+ * Start signing in: a single-use nonce for `owner` and the message to sign with it.
+ * POST { owner: <pubkeyBase58> }
+ * Response: { nonce, message, expiresAt }
+ */
+app.post('/auth/nonce', validate(routes.AuthNonceRoute), authLimit, async (req: RouteRequest<typeof routes.AuthNonceRoute>, res: RouteResponse<typeof routes.AuthNonceRoute>) => {
+  try {
+    const owner = req.body.owner;
+    const { nonce, message, expiresAt } = await createLoginChallenge(
+      redis, owner, ENV.AUTH_DOMAIN, ENV.AUTH_NONCE_TTL_SECONDS * 1000
+    );
+    res.json({ ok: true, owner: owner.toBase58(), nonce, message, expiresAt });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/**
+ * Finish signing in with the wallet's signature of the nonce message. The token goes in
+ * `Authorization: Bearer <token>` on the owner-scoped routes until `expiresAt`.
+ * POST { owner: <pubkeyBase58>, nonce, signature: <base58 ed25519 signature of message> }
+ * Response: { token, expiresAt }
+ */
+app.post('/auth/verify', validate(routes.AuthVerifyRoute), authLimit, async (req: RouteRequest<typeof routes.AuthVerifyRoute>, res: RouteResponse<typeof routes.AuthVerifyRoute>) => {
+  try {
+    const { nonce, signature } = req.body;
+    const result = await completeLogin(redis, { owner: req.body.owner, nonce, signature }, ENV.SESSION_TTL_SECONDS * 1000);
+    if (!result.ok) return fail(res, 'UNAUTHORIZED', result.err);
+    res.json({ ok: true, owner: result.session.owner, token: result.token, expiresAt: result.session.expiresAt });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/**
+ * The session of the bearer token.
+ */
+app.get('/auth/session', validate(routes.AuthSessionRoute), async (req: RouteRequest<typeof routes.AuthSessionRoute>, res: RouteResponse<typeof routes.AuthSessionRoute>) => {
+  try {
+    const session = await getSession(redis, bearerToken(req));
+    if (!session) return fail(res, 'UNAUTHORIZED', 'No session');
+    res.json({ ok: true, owner: session.owner, expiresAt: session.expiresAt });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/**
+ * End the session of the bearer token.
+ */
+app.post('/auth/logout', validate(routes.AuthLogoutRoute), async (req: RouteRequest<typeof routes.AuthLogoutRoute>, res: RouteResponse<typeof routes.AuthLogoutRoute>) => {
+  try {
+    const revoked = await revokeSession(redis, bearerToken(req));
+    if (!revoked) return fail(res, 'UNAUTHORIZED', 'No session');
+    res.json({ ok: true });
+  } catch (e) {
+    sendError(res, e);
+  }
 });
 
 /**
  * Check eligibility & allowance remaining within cooldown window.
- * Query: ?owner=<pubkeyBase58>
+ * Query: ?owner=<pubkeyBase58>&box=<box id> (default box when omitted)
  */
-app.get('/eligibility', async (req: any, res: any) => {
-  try {
-    const ownerStr = String(req.query.owner || '');
-    const owner = new PublicKey(ownerStr);
-    const count = await findCollectionCountForOwner(mx, owner, gateCollection);
-    const tokenCheck = await checkGateTokenHoldings(connection, owner, gateToken, ENV.OPEN_FEE_TOKEN)
-    const tokenCheck1 = await checkGateTokenHoldings(connection, owner, gateToken1, ENV.OPEN_TOKEN1_AMOUNT)
-    const tokenCheck2 = await checkGateTokenHoldings(connection, owner, gateToken2, ENV.OPEN_TOKEN2_AMOUNT)
-    const tokenCheck3 = await checkGateTokenHoldings(connection, owner, gateToken3, ENV.OPEN_TOKEN3_AMOUNT)
-    const isTokenHolder = tokenCheck.hasAccess || tokenCheck1.hasAccess || tokenCheck2.hasAccess || tokenCheck3.hasAccess;
-    const { remaining, used, limit, cooldownMs } = await getOpensRemaining(owner, count, isTokenHolder);
+app.get('/eligibility', validate(routes.EligibilityRoute), queryOwner, rpcLimit.query, async (req: RouteRequest<typeof routes.EligibilityRoute>, res: RouteResponse<typeof routes.EligibilityRoute>) => {
+  try {
+    const owner = req.query.owner;
+    const box = findBox(req.query.box);
+    if (!box) return fail(res, 'NOT_FOUND', 'Box not found');
+    const { holdings, access, assets } = await checkAccess(owner, box);
+    const { remaining, used, limit, cooldownMs } = await getOpensRemaining(
+      redis, owner, access.opensPerWindow, access.windowMs, box.id
+    );
     res.json({
       ok: true,
       owner: owner.toBase58(),
-      gateCollection: gateCollection,
-      holderCount: count,
-      tokenBalance: tokenCheck.balance,
-      opens: { used, limit, remaining, cooldownMs: cooldownMs },
-      rule: count >= 10 ? '10+ holders can open 2 boxes / 24h' : 'Others can open 1 box / 24h'
+      box: box.id,
+      eligible: access.eligible,
+      holdings: {
+        collections: holdings.collections,
+        tokens: holdings.tokens,
+        checkedAt: holdings.checkedAt,
+        cached: holdings.cached,
+      },
+      opens: { used, limit, remaining, cooldownMs: cooldownMs, windowMs: access.windowMs },
+      tiers: access.tiers,
+      combine: gates.config.combine,
+      gates: access.gates,
+      chargeMode: ENV.OPEN_CHARGE_MODE,
+      assets,
+      progression: describeProgress(await getProgress(redis, owner), progressionConfig),
     });
-  } catch (e: any) {
-    res.status(400).json({ ok: false, error: e?.message || String(e) });
+  } catch (e) {
+    sendError(res, e);
   }
 });
 
 /**
- * Prepare a payment transaction a client can sign to pay the opening fee.
- * POST { owner: <pubkeyBase58> }
- * Response: { txBase64, recentBlockhash, treasury }
- */
-app.post('/prepare-payment', async (req: any, res: any) => {
-  try {
-    const owner = new PublicKey(String(req.body.owner || ''));
-    const holderCount = await findCollectionCountForOwner(mx, owner, gateCollection);
-    const tokenCheck = await checkGateTokenHoldings(connection, owner, gateToken, ENV.OPEN_FEE_TOKEN);
-    const tokenCheck1 = await checkGateTokenHoldings(connection, owner, gateToken1, ENV.OPEN_TOKEN1_AMOUNT)
-    const tokenCheck2 = await checkGateTokenHoldings(connection, owner, gateToken2, ENV.OPEN_TOKEN2_AMOUNT)
-    const tokenCheck3 = await checkGateTokenHoldings(connection, owner, gateToken3, ENV.OPEN_TOKEN3_AMOUNT)
-    const isTokenHolder = tokenCheck.hasAccess || tokenCheck1.hasAccess || tokenCheck2.hasAccess || tokenCheck3.hasAccess;
-    if (holderCount < 1 && !isTokenHolder) {
-      return res.status(403).json({ ok: false, error: 'Only NFT holders are allowed to open.' });
+ * Current server seed commitment and recently revealed seeds.
+ */
+app.get('/fairness', validate(routes.FairnessRoute), async (_req: RouteRequest<typeof routes.FairnessRoute>, res: RouteResponse<typeof routes.FairnessRoute>) => {
+  try {
+    const current = await getServerSeedCommitment(redis, FAIR_SEED_ROTATE_MS);
+    const revealed = await listRevealedSeeds(redis);
+    res.json({
+      ok: true,
+      current: { ...current, rotatesAt: current.createdAt + FAIR_SEED_ROTATE_MS },
+      revealed,
+    });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/**
+ * Reveal the roll inputs for a payment signature and recompute the outcome.
+ * The server seed is only returned once it has been rotated out.
+ */
+app.get('/verify/:signature', validate(routes.VerifyRoute), async (req: RouteRequest<typeof routes.VerifyRoute>, res: RouteResponse<typeof routes.VerifyRoute>) => {
+  try {
+    const verification = await getRollVerification(redis, req.params.signature);
+    if (!verification) return fail(res, 'NOT_FOUND', 'No roll recorded for this signature');
+    const { record, serverSeed } = verification;
+    const recomputedRoll = serverSeed
+      ? computeRoll(serverSeed, record.clientSeed, record.signature, record.nonce)
+      : null;
+    const prizes = await getPrizeTableVersion(redis, record.prizeTableVersion);
+    res.json({
+      ok: true,
+      signature: record.signature,
+      revealed: serverSeed !== null,
+      serverSeedHash: record.serverSeedHash,
+      serverSeed,
+      hashMatches: serverSeed ? hashServerSeed(serverSeed) === record.serverSeedHash : null,
+      clientSeed: record.clientSeed,
+      nonce: record.nonce,
+      roll: record.roll,
+      recomputedRoll,
+      prizeTableVersion: record.prizeTableVersion,
+      result: recomputedRoll !== null && prizes ? describePrize(choosePrize(recomputedRoll, prizes)) : null,
+    });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/** Route handler for the box named by `:id`; 404 for unknown boxes. */
+function withBox<R extends RouteSchemas>(handler: (box: Box, req: RouteRequest<R>, res: RouteResponse<R>) => Promise<unknown>) {
+  return (req: RouteRequest<R> & { params: { id: string } }, res: RouteResponse<R>) => {
+    const box = boxes.get(req.params.id);
+    if (!box) return fail(res, 'NOT_FOUND', 'Box not found');
+    return handler(box, req, res);
+  };
+}
+
+/**
+ * Create an open intent and prepare a payment transaction bound to it (via memo)
+ * that a client can sign to pay the opening fee of `box`.
+ * POST { owner: <pubkeyBase58>, clientSeed?: string, txVersion?: 'legacy' | 'v0', currency?: 'SOL' | <feeTokenMint> }
+ * `txVersion: 'v0'` returns a VersionedTransaction with compute-budget priority fee instructions.
+ * `currency` set to the fee token mint pays the box's token fee instead of SOL.
+ * Response: { txBase64, txVersion, recentBlockhash, treasury, price, intentId, intentExpiresAt, serverSeedHash, clientSeed }
+ */
+async function preparePayment(
+  box: Box,
+  req: RouteRequest<typeof routes.PreparePaymentRoute>,
+  res: RouteResponse<typeof routes.PreparePaymentRoute>
+) {
+  try {
+    const owner = req.body.owner;
+    const clientSeed: string = req.body.clientSeed ?? randomBytes(16).toString('hex');
+    const { txVersion, currency } = req.body;
+    if (currency !== 'SOL' && (currency !== feeTokenMint.toBase58() || box.fee.tokenAmount === undefined)) {
+      const allowed = box.fee.tokenAmount === undefined ? "'SOL'" : `'SOL' or ${feeTokenMint.toBase58()}`;
+      return fail(res, 'INVALID_REQUEST', `currency must be ${allowed}`);
+    }
+    const blocked = await checkControls(owner, box);
+    if (blocked) return fail(res, blocked.code, blocked.error);
+    const { status } = await getBoxStatus(redis, box);
+    if (status !== 'active') return fail(res, 'BOX_UNAVAILABLE', describeBoxStatus(status));
+    const { access, freshMints, needsAsset } = await checkAccess(owner, box);
+    if (!access.eligible) {
+      return fail(res, 'NOT_ELIGIBLE', 'Only NFT holders are allowed to open.', { gates: access.gates });
     }
-    const { remaining } = await getOpensRemaining(owner, holderCount, isTokenHolder);
-    if (remaining <= 0) {
-      return res.status(403).json({ ok: false, error: 'Open limit reached in the last cooldown window' });
+    if (needsAsset && freshMints.length === 0) {
+      return fail(res, 'ASSETS_EXHAUSTED', 'Every gate NFT in this wallet has already been used in its cooldown window');
     }
-    const ix = SystemProgram.transfer({
-      fromPubkey: owner,
-      toPubkey: feeWallet,
-      lamports: ENV.OPEN_FEE_LAMPORTS,
+    const { remaining } = await getOpensRemaining(redis, owner, access.opensPerWindow, access.windowMs, box.id);
+    if (remaining <= 0) return fail(res, 'OPEN_LIMIT_REACHED', 'Open limit reached in the last cooldown window');
+    // Don't take a payment the treasury couldn't honour
+    const prizeTable = await getEffectivePrizeTable(box);
+    const solvent = await checkOpenAllowed(chain, redis, treasuryPubkey, prizeTable.prizes, solvencyConfig);
+    if (!solvent.ok) return fail(res, 'OPENING_PAUSED', 'Opening is paused: ' + solvent.reason);
+    const quote = await getPaymentQuote(chain, currency === 'SOL' ? 'SOL' : 'TOKEN', {
+      lamports: box.fee.lamports,
+      tokenMint: feeTokenMint,
+      tokenAmount: box.fee.tokenAmount ?? 0,
+    });
+    // The intent keeps the seed committed to here, and the open rolls with it
+    const commitment = await getServerSeedCommitment(redis, FAIR_SEED_ROTATE_MS);
+    const intent = await createOpenIntent(
+      redis, { owner, box: box.id, clientSeed, serverSeedId: commitment.id, quote }, OPEN_INTENT_TTL_MS
+    );
+    const { txBase64, blockhash, lastValidBlockHeight } = await buildPaymentTransaction(chain, {
+      owner,
+      instructions: [...buildPaymentInstructions(owner, feeWallet, quote), buildIntentMemoInstruction(intent, owner)],
+      version: txVersion,
+      computeUnitLimit: ENV.PAYMENT_COMPUTE_UNIT_LIMIT,
+      priorityFeeMicroLamports: ENV.PAYMENT_PRIORITY_FEE_MICROLAMPORTS,
     });
-    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
-    const tx = new Transaction({ recentBlockhash: blockhash, feePayer: owner }).add(ix);
-    const serialized = tx.serialize({ requireAllSignatures: false, verifySignatures: false });
     res.json({
       ok: true,
-      txBase64: Buffer.from(serialized).toString('base64'),
+      box: box.id,
+      txBase64,
+      txVersion,
       recentBlockhash: blockhash,
       lastValidBlockHeight,
       treasury: feeWallet.toBase58(),
-      lamports: ENV.OPEN_FEE_LAMPORTS,
+      lamports: quote.currency === 'SOL' ? box.fee.lamports : undefined,
+      price: quote,
+      intentId: intent.id,
+      intentExpiresAt: intent.expiresAt,
+      serverSeedHash: commitment.hash,
+      clientSeed,
     });
-  } catch (e: any) {
-    res.status(400).json({ ok: false, error: e?.message || String(e) });
+  } catch (e) {
+    sendError(res, e);
   }
-});
+}
+
+app.post(
+  '/prepare-payment', validate(routes.PreparePaymentRoute), bodyOwner, rpcLimit.body,
+  (req: RouteRequest<typeof routes.PreparePaymentRoute>, res: RouteResponse<typeof routes.PreparePaymentRoute>) =>
+    preparePayment(defaultBox, req, res)
+);
+app.post('/boxes/:id/prepare-payment', validate(routes.BoxPreparePaymentRoute), bodyOwner, rpcLimit.body, withBox(preparePayment));
+
+type SettledOpen = PendingOpen & Required<Pick<PendingOpen, 'roll' | 'prize' | 'payout'>>;
 
 /**
- * Open the box (verify payment signature, enforce limits, roll prize, and distribute if any).
+ * Finish a rolled open: roll, apply the payout limits, record progress, queue the payout,
+ * write the ledger and send the events. Each step is marked done on the pending open as it
+ * completes, so calling this again after a failure carries on where the last call stopped.
+ * The caller holds the open's settle lock.
+ */
+async function settleOpen(open: PendingOpen): Promise<SettledOpen> {
+  const owner = new PublicKey(open.owner);
+  const step = async (name: OpenStep, run: () => Promise<unknown>) => {
+    if (open.done.includes(name)) return;
+    await run();
+    open.done.push(name);
+    await savePendingOpen(redis, open);
+  };
+
+  if (open.creditId) await markCreditSpent(redis, open.creditId);
+  await eligibility.invalidate(owner);
+
+  // Roll from the committed server seed, the client seed and this payment
+  await step('roll', async () => {
+    open.roll = await rollForSignature(
+      redis, open.signature, open.clientSeed, FAIR_SEED_ROTATE_MS, open.rollTableVersion, open.serverSeedId
+    );
+  });
+  const roll = open.roll!;
+
+  // Reserve the prize against the daily budgets and treasury; may downgrade it
+  await step('limits', async () => {
+    const [rollPrizes, prizes] = await Promise.all([
+      getPrizeTableVersion(redis, open.rollTableVersion),
+      getPrizeTableVersion(redis, open.prizeTableVersion),
+    ]);
+    if (!rollPrizes || !prizes) throw new Error(`Prize table ${open.rollTableVersion} or ${open.prizeTableVersion} not found`);
+    const limited = await applyPayoutLimits(
+      chain, redis, treasuryPubkey, open.signature, choosePrize(roll.roll, rollPrizes), prizes, solvencyConfig
+    );
+    open.prize = limited.prize;
+    open.downgradedFrom = limited.downgradedFrom;
+    open.budgetDay = limited.budgetDay;
+  });
+  const prize = open.prize!;
+
+  await step('progress', () => recordProgress(redis, owner, prize, roll.createdAt));
+
+  // Write the win to the payout outbox; the worker sends and confirms it
+  await step('payout', async () => {
+    const payout = isPayablePrize(prize)
+      ? await createPayout(redis, {
+        owner,
+        paymentSignature: open.signature,
+        prize,
+        reserved: open.budgetDay ? { day: open.budgetDay } : undefined,
+      })
+      : null;
+    open.payout = payout ? { id: payout.id, status: payout.status } : null;
+  });
+  const payoutId = open.payout?.id ?? null;
+
+  await step('ledger', () => appendOpen(redis, {
+    owner: open.owner,
+    box: open.box,
+    intentId: open.intentId,
+    paymentSignature: open.signature,
+    payment: { currency: open.payment.currency, mint: open.payment.mint, amount: open.payment.amount },
+    roll: {
+      serverSeedHash: roll.serverSeedHash,
+      clientSeed: roll.clientSeed,
+      nonce: roll.nonce,
+      roll: roll.roll,
+      prizeTableVersion: roll.prizeTableVersion,
+    },
+    prize: describePrize(prize),
+    downgradedFrom: open.downgradedFrom ? describePrize(open.downgradedFrom) : undefined,
+    progression: open.progression,
+    payoutId,
+    openedAt: roll.createdAt,
+  }));
+
+  await step('events', async () => {
+    const event = {
+      owner: open.owner,
+      box: open.box,
+      paymentSignature: open.signature,
+      prize: describePrize(prize),
+      downgradedFrom: open.downgradedFrom ? describePrize(open.downgradedFrom) : null,
+      progression: open.progression,
+      payoutId,
+      openedAt: roll.createdAt,
+    };
+    await webhooks.emit('box.opened', event);
+    if (prize.kind !== 'NOTHING') await webhooks.emit('prize.won', event);
+    await feed.publish('open', {
+      owner: maskOwner(event.owner),
+      box: open.box,
+      prize: event.prize,
+      label: event.prize.label,
+      payoutId,
+      txSig: null, // follows in a `payout` event once the payout confirms
+      openedAt: event.openedAt,
+    });
+  });
+
+  await deletePendingOpen(redis, open.signature);
+  if (payoutId) {
+    processPayout(payoutCtx, payoutId).catch((e) => console.error(`Payout ${payoutId} failed:`, e));
+  }
+  return open as SettledOpen;
+}
+
+/**
+ * Recovery sweep: finish opens whose request failed after the roll, then give back credits
+ * left in `spending` by opens that failed before it.
+ */
+async function recoverOpens() {
+  for (const sig of await listStalePendingOpens(redis, PENDING_OPEN_STALE_MS)) {
+    const token = await acquireLock(redis, pendingOpenLockKey(sig), PENDING_OPEN_LOCK_MS);
+    if (!token) continue;
+    try {
+      const open = await getPendingOpen(redis, sig);
+      if (!open) {
+        await deletePendingOpen(redis, sig);
+        continue;
+      }
+      await settleOpen(open);
+      console.log(`[opens] Finished interrupted open ${sig}`);
+    } catch (e) {
+      console.error(`Finishing open ${sig} failed:`, e);
+    } finally {
+      await releaseLock(redis, pendingOpenLockKey(sig), token);
+    }
+  }
+  const restored = await recoverSpendingCredits(redis, SPENDING_CREDIT_STALE_MS, (id) => hasPendingOpen(redis, id));
+  for (const credit of restored) console.log(`[credits] Gave back credit ${credit.id}, stuck in spending`);
+}
+
+/**
+ * Open `box` (verify payment signature, enforce limits, roll prize, and distribute if any).
  * POST {
  *   owner: <pubkeyBase58>,
  *   signature: <solana tx signature of payment to treasury>
  * }
+ * or, to spend a credit instead of a new payment:
+ * POST { owner: <pubkeyBase58>, creditId: <id from /credits> }
+ * The payment (or credit) must be for this box. A verified payment that is turned down (limit
+ * reached, paused, sold out, intent expired, ...) is kept as a credit, returned as `credit`
+ * on the error response.
  */
-app.post('/open', async (req: any, res: any) => {
+async function openBox(box: Box, req: RouteRequest<typeof routes.OpenRoute>, res: RouteResponse<typeof routes.OpenRoute>) {
+  // The signature claim, the open reservation and the asset charge are released unless we get
+  // as far as rolling. Once a payment is verified, its signature stays claimed: if the open
+  // doesn't go ahead, the payment is kept as a credit (or the spent credit is given back).
+  let owner: PublicKey | null = null;
+  let sig = '';
+  let claimed = false;
+  let verified = false;
+  let paid: VerifiedPayment | null = null;
+  let creditId = '';
+  let reserved = false;
+  let supplyReserved = false;
+  let chargedAsset: string | null = null;
+  let rolled = false;
+  let settleLock: string | null = null;
+
+  const keepPayment = async (reason: string): Promise<Credit | null> => {
+    if (!paid || !owner || rolled) return null;
+    if (creditId) return restoreCredit(redis, creditId);
+    const { signature, intentId, clientSeed, payment } = paid;
+    return createCredit(redis, { id: signature, owner: owner.toBase58(), box: paid.box, intentId, clientSeed, payment, reason });
+  };
+  const reject = async (code: ErrorCode, error: string, extra: Record<string, unknown> = {}) => {
+    const credit = await keepPayment(error).catch((e) => {
+      console.error(`Keeping payment ${sig} as a credit failed:`, e);
+      return null;
+    });
+    paid = null;
+    fail(res, code, error, { ...extra, ...(credit ? { credit: describeCredit(credit) } : {}) });
+  };
+
   try {
-    const owner = new PublicKey(String(req.body.owner || ''));
-    const sig = String(req.body.signature || '');
-    if (!sig) return res.status(400).json({ ok: false, error: 'Missing signature' });
+    owner = req.body.owner;
+    creditId = req.body.creditId ?? '';
 
-    if (await hasUsedSignature(sig)) {
-      return res.status(409).json({ ok: false, error: 'Signature already used' });
-    }
+    if (creditId) {
+      const credit = await takeCreditForOpen(redis, creditId, owner);
+      if (!credit) {
+        creditId = '';
+        return reject('CREDIT_UNAVAILABLE', 'Credit not found or not available');
+      }
+      sig = credit.id;
+      paid = {
+        signature: credit.id,
+        box: credit.box ?? DEFAULT_BOX_ID,
+        intentId: credit.intentId,
+        clientSeed: credit.clientSeed,
+        payment: credit.payment,
+      };
+      if (paid.box !== box.id) return reject('CREDIT_UNAVAILABLE', `Credit is for box '${paid.box}'`);
+    } else {
+      sig = req.body.signature!;
 
-    const holderCount = await findCollectionCountForOwner(mx, owner, gateCollection);
-    const tokenCheck = await checkGateTokenHoldings(connection, owner, gateToken, ENV.OPEN_FEE_TOKEN)
-    const tokenCheck1 = await checkGateTokenHoldings(connection, owner, gateToken1, ENV.OPEN_TOKEN1_AMOUNT)
-    const tokenCheck2 = await checkGateTokenHoldings(connection, owner, gateToken2, ENV.OPEN_TOKEN2_AMOUNT)
-    const tokenCheck3 = await checkGateTokenHoldings(connection, owner, gateToken3, ENV.OPEN_TOKEN3_AMOUNT)
-    const isTokenHolder = tokenCheck.hasAccess || tokenCheck1.hasAccess || tokenCheck2.hasAccess || tokenCheck3.hasAccess;
-    const { remaining } = await getOpensRemaining(owner, holderCount, isTokenHolder);
-    if (remaining <= 0) {
-      return res.status(403).json({ ok: false, error: 'Open limit reached in the last cooldown window' });
-    }
+      claimed = await claimSignature(redis, sig);
+      if (!claimed) {
+        const credit = await getCredit(redis, sig);
+        return credit
+          ? reject('PAYMENT_KEPT_AS_CREDIT', 'Payment was kept as a credit; open with its creditId', { credit: describeCredit(credit) })
+          : reject('SIGNATURE_USED', 'Signature already used');
+      }
 
-    // Verify payment
-    const check = await verifyPaymentSignature(sig, owner, ENV.OPEN_FEE_LAMPORTS);
-    if (!check.ok) {
-      return res.status(400).json({ ok: false, error: 'Payment verification failed: ' + (check.err || 'unknown') });
+      // The payment must carry the memo of an unexpired, unconsumed intent for this owner
+      const result = await verifyOpenPayment(owner, sig, box);
+      paid = result.payment;
+      verified = Boolean(paid);
+      if (!result.ok) return reject('PAYMENT_INVALID', result.error);
+      // Rolling with a revealed seed would let the outcome be known before opening
+      if (paid!.serverSeedId && !(await isServerSeedActive(redis, paid!.serverSeedId))) {
+        return reject('SEED_ROTATED', 'The server seed committed to for this payment has been revealed; open with the credit instead');
+      }
     }
 
-    // Prevent re-use
-    await markSignatureUsed(sig);
-
-    // Roll prize (weights will be normalized; your requested weights sum to 101.1%)
-    const prize = choosePrize();
-
-    logPrize(prize);
-
-    let prizeTxSig: string | null = null;
-    let prizeMint: string | null = null;
-
-    if (prize.kind === 'SOL') {
-      const lamports = prize.lamports;
-      const ix = SystemProgram.transfer({ fromPubkey: treasuryPubkey, toPubkey: owner, lamports });
-      const { blockhash } = await connection.getLatestBlockhash();
-      const tx = new Transaction({ recentBlockhash: blockhash, feePayer: treasuryPubkey }).add(
-        ComputeBudgetProgram.setComputeUnitLimit({ units: 300_000 }),
-        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 10_000 }),
-        ix
-      );
-      prizeTxSig = await sendAndConfirmTransaction(connection, tx, [treasury], { commitment: 'confirmed' });
-    } else if (prize.kind === 'NFT') {
-      // Pick NFT prize from treasury in prizeCollection
-      const nft: any = await pickPrizeNftFromTreasury(mx, treasuryPubkey, prizeCollection);
-      if (nft) {
-        const mintAddress = nft.mint?.address || nft.mintAddress
-        const sigNft = await transferNftTo(connection, treasury, mintAddress, owner);
-        prizeMint = mintAddress.toString();
-        prizeTxSig = sigNft;
-      } else {
-        // no NFT inventory, fallback to nothing
-        console.warn('No NFT available in treasury for prizeCollection; fallback to nothing');
+    const blocked = await checkControls(owner, box);
+    if (blocked) return reject(blocked.code, blocked.error);
+    const { status } = await getBoxStatus(redis, box);
+    if (status !== 'active' && status !== 'soldOut') {
+      return reject('BOX_UNAVAILABLE', describeBoxStatus(status));
+    }
+    // Read holdings from the chain: a wallet that just moved its gate NFTs away mustn't open
+    const { access, freshMints, needsAsset } = await checkAccess(owner, box, { fresh: true });
+    if (!access.eligible) {
+      return reject('NOT_ELIGIBLE', 'Only NFT holders are allowed to open.', { gates: access.gates });
+    }
+    // Check the limit and reserve a slot in one step, so parallel opens can't all pass
+    reserved = (await reserveOpen(redis, owner, access.opensPerWindow, access.windowMs, sig, box.id)).reserved;
+    if (!reserved) {
+      return reject('OPEN_LIMIT_REACHED', 'Open limit reached in the last cooldown window');
+    }
+    supplyReserved = await reserveBoxSupply(redis, box);
+    if (!supplyReserved) {
+      return reject('BOX_UNAVAILABLE', describeBoxStatus('soldOut'));
+    }
+    if (ENV.OPEN_CHARGE_MODE === 'asset') {
+      chargedAsset = await chargeAsset(redis, owner, freshMints, access.windowMs, box.id);
+      if (!chargedAsset && needsAsset) {
+        return reject('ASSETS_EXHAUSTED', 'Every gate NFT in this wallet has already been used in its cooldown window');
       }
-    } else {
-      // NOTHING
     }
 
-    // Record open AFTER distribution attempt to avoid edge-cases
-    await recordOpen(owner);
+    const prizeTable = await getEffectivePrizeTable(box);
+    const solvent = await checkOpenAllowed(chain, redis, treasuryPubkey, prizeTable.prizes, solvencyConfig);
+    if (!solvent.ok) {
+      return reject('OPENING_PAUSED', 'Opening is paused: ' + solvent.reason);
+    }
+
+    // Pity timer or streak bonus for this wallet, as a derived (verifiable) prize table
+    const { table: rollTable, effect: progression } = await applyProgression(
+      redis, prizeTable, await getProgress(redis, owner), progressionConfig
+    );
 
+    // From here on the open counts, whatever happens to the payout. Everything needed to
+    // finish it is written down before rolling, so if this request fails part way the
+    // recovery sweep finishes the open instead of losing the prize.
+    const now = Date.now();
+    const pending: PendingOpen = {
+      signature: sig,
+      owner: owner.toBase58(),
+      box: box.id,
+      intentId: paid!.intentId,
+      clientSeed: paid!.clientSeed,
+      serverSeedId: paid!.serverSeedId,
+      payment: paid!.payment,
+      slot: paid!.slot,
+      blockTime: paid!.blockTime,
+      creditId: creditId || undefined,
+      chargedAsset,
+      prizeTableVersion: prizeTable.version,
+      rollTableVersion: rollTable.version,
+      progression,
+      done: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    settleLock = await acquireLock(redis, pendingOpenLockKey(sig), PENDING_OPEN_LOCK_MS);
+    await savePendingOpen(redis, pending);
+    rolled = true;
+    if (creditId && !(await markCreditSpent(redis, creditId))) {
+      // The credit was given back meanwhile: this open stalled past the spending timeout
+      await deletePendingOpen(redis, sig);
+      rolled = false;
+      return reject('CREDIT_UNAVAILABLE', 'Credit is no longer being spent; try again');
+    }
+
+    const open = await settleOpen(pending);
+    const { roll, prize, downgradedFrom, payout, payment } = open;
     res.json({
       ok: true,
-      result: prize,
-      prizeTxSig,
-      prizeMint,
+      box: box.id,
+      result: describePrize(prize),
+      downgradedFrom: downgradedFrom ? describePrize(downgradedFrom) : undefined,
+      progression,
+      chargedAsset,
+      creditId: creditId || undefined,
+      payout,
+      intentId: open.intentId,
+      fairness: {
+        serverSeedHash: roll.serverSeedHash,
+        clientSeed: roll.clientSeed,
+        nonce: roll.nonce,
+        prizeTableVersion: roll.prizeTableVersion,
+      },
       payment: {
         signature: sig,
-        lamportsToTreasury: check.lamportsToTreasury,
-        slot: check.slot,
-        blockTime: check.blockTime
+        currency: payment.currency,
+        mint: payment.mint,
+        amountToTreasury: payment.amount,
+        lamportsToTreasury: payment.currency === 'SOL' ? Number(payment.amount) : undefined,
+        slot: open.slot,
+        blockTime: open.blockTime
+      }
+    });
+  } catch (e) {
+    if (e instanceof ApiError) {
+      await reject(e.code, e.message, e.extra);
+    } else if (e instanceof EligibilityError) {
+      await reject('UPSTREAM_ERROR', e.message);
+    } else {
+      console.error(e);
+      await reject('INTERNAL_ERROR', 'Internal error');
+    }
+  } finally {
+    if (settleLock) await releaseLock(redis, pendingOpenLockKey(sig), settleLock).catch((e) => console.error('releaseLock failed:', e));
+    if (!rolled) {
+      if (reserved && owner) await releaseOpen(redis, owner, sig, box.id).catch((e) => console.error('releaseOpen failed:', e));
+      if (supplyReserved) await releaseBoxSupply(redis, box).catch((e) => console.error('releaseBoxSupply failed:', e));
+      if (chargedAsset && owner) {
+        await releaseAsset(redis, owner, chargedAsset, box.id).catch((e) => console.error('releaseAsset failed:', e));
+      }
+      // An unverified payment can be retried; a verified one is now a credit
+      if (claimed && !verified) await releaseSignature(redis, sig).catch((e) => console.error('releaseSignature failed:', e));
+    }
+  }
+}
+
+app.post('/open', validate(routes.OpenRoute), bodyOwner, rpcLimit.body, (req: RouteRequest<typeof routes.OpenRoute>, res: RouteResponse<typeof routes.OpenRoute>) => openBox(defaultBox, req, res));
+app.post('/boxes/:id/open', validate(routes.BoxOpenRoute), bodyOwner, rpcLimit.body, withBox(openBox));
+
+/**
+ * Credits of a wallet: verified payments that didn't open a box, newest first.
+ * An `available` credit can pay for an open of its box (`POST /open { owner, creditId }`) or be refunded.
+ * Query: ?owner=<pubkeyBase58>
+ */
+app.get('/credits', validate(routes.CreditsRoute), queryOwner, async (req: RouteRequest<typeof routes.CreditsRoute>, res: RouteResponse<typeof routes.CreditsRoute>) => {
+  try {
+    const owner = req.query.owner;
+    const credits = await listCredits(redis, owner);
+    res.json({ ok: true, owner: owner.toBase58(), credits: credits.map(describeCredit) });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/**
+ * Refund an unused payment on-chain, once. The payment must be an available credit of
+ * `owner`, or a verified payment for one of the owner's intents that never opened a box.
+ * The refund goes through the payout outbox, so it is retried like a prize.
+ * POST { owner: <pubkeyBase58>, signature: <payment signature (= credit id)> }
+ */
+app.post('/refunds', validate(routes.RefundsRoute), bodyOwner, rpcLimit.body, async (req: RouteRequest<typeof routes.RefundsRoute>, res: RouteResponse<typeof routes.RefundsRoute>) => {
+  let sig = '';
+  let claimed = false;
+  let verified = false;
+  try {
+    const owner = req.body.owner;
+    sig = req.body.signature;
+
+    let credit = await getCredit(redis, sig);
+    if (!credit) {
+      claimed = await claimSignature(redis, sig);
+      if (!claimed) return fail(res, 'SIGNATURE_USED', 'Signature already used');
+      const result = await verifyOpenPayment(owner, sig, null);
+      if (!result.ok && !result.payment) return fail(res, 'PAYMENT_INVALID', result.error);
+      verified = true;
+      const { box, intentId, clientSeed, payment } = result.payment!;
+      credit = await createCredit(redis, {
+        id: sig, owner: owner.toBase58(), box, intentId, clientSeed, payment, reason: 'Refund requested',
+      });
+    }
+
+    // A refund interrupted after taking the credit can be resumed; payouts are idempotent per payment
+    if (credit.owner !== owner.toBase58()) {
+      return fail(res, 'FORBIDDEN', 'Payment belongs to another owner');
+    }
+    if (credit.status !== 'refunding') {
+      const taken = await takeCreditForRefund(redis, sig, owner);
+      if (!taken) {
+        return fail(res, 'CREDIT_UNAVAILABLE', `Credit is ${credit.status}`, { credit: describeCredit(credit) });
       }
+      credit = taken;
+    }
+
+    const payout = await createPayout(redis, {
+      owner, paymentSignature: `refund:${sig}`, prize: refundPrize(credit), type: 'refund',
+    });
+    credit = (await markCreditRefunded(redis, sig, payout.id)) ?? credit;
+    processPayout(payoutCtx, payout.id).catch((e) => console.error(`Refund payout ${payout.id} failed:`, e));
+
+    res.json({
+      ok: true,
+      credit: describeCredit(credit),
+      payout: { id: payout.id, status: payout.status, prize: describePrize(payout.prize) },
+    });
+  } catch (e) {
+    sendError(res, e);
+  } finally {
+    if (claimed && !verified) await releaseSignature(redis, sig).catch((e) => console.error('releaseSignature failed:', e));
+  }
+});
+
+/**
+ * Payout status for a won prize.
+ */
+app.get('/payouts/:id', validate(routes.PayoutRoute), async (req: RouteRequest<typeof routes.PayoutRoute>, res: RouteResponse<typeof routes.PayoutRoute>) => {
+  try {
+    const payout = await getPayout(redis, req.params.id);
+    if (!payout) return fail(res, 'NOT_FOUND', 'Payout not found');
+    res.json({
+      ok: true,
+      payout: {
+        id: payout.id,
+        type: payout.type ?? 'prize',
+        owner: payout.owner,
+        status: payout.status,
+        prize: describePrize(payout.prize),
+        txSig: payout.txSig ?? null,
+        attempts: payout.attempts,
+        lastError: payout.lastError ?? null,
+        createdAt: payout.createdAt,
+        updatedAt: payout.updatedAt,
+      },
     });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/**
+ * Paginated open history for one wallet, newest first.
+ * Query: ?owner=<pubkeyBase58>&limit=<1-100>&cursor=<nextCursor from the previous page>
+ */
+app.get('/history', validate(routes.HistoryRoute), queryOwner, async (req: RouteRequest<typeof routes.HistoryRoute>, res: RouteResponse<typeof routes.HistoryRoute>) => {
+  try {
+    const { owner, limit, cursor } = req.query;
+    const { entries, nextCursor } = await getOwnerHistory(redis, owner.toBase58(), limit, cursor);
+
+    // Attach the current payout state (status, tx signature, resolved NFT mint)
+    const history = await Promise.all(entries.map(async (entry) => {
+      const payout = entry.payoutId ? await getPayout(redis, entry.payoutId) : null;
+      return {
+        ...entry,
+        payout: payout
+          ? { id: payout.id, status: payout.status, txSig: payout.txSig ?? null, prize: describePrize(payout.prize) }
+          : null,
+      };
+    }));
+    res.json({ ok: true, owner: owner.toBase58(), history, nextCursor });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/**
+ * Most recent wins across all wallets, with masked owners.
+ * Query: ?limit=<1-100>
+ */
+app.get('/recent-wins', validate(routes.RecentWinsRoute), async (req: RouteRequest<typeof routes.RecentWinsRoute>, res: RouteResponse<typeof routes.RecentWinsRoute>) => {
+  try {
+    const wins = await getRecentWins(redis, req.query.limit);
+    res.json({
+      ok: true,
+      wins: wins.map((w) => ({
+        id: w.id,
+        owner: maskOwner(w.owner),
+        prize: w.prize,
+        payoutId: w.payoutId,
+        openedAt: w.openedAt,
+      })),
+    });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/**
+ * Live feed (Server-Sent Events) of completed opens (`open`) and confirmed payouts (`payout`,
+ * with the transaction signature), owners masked. Reconnect with the `Last-Event-ID` header
+ * (or ?lastEventId=) to get missed events from the backlog.
+ */
+app.get('/feed', validate(routes.FeedRoute), (req: RouteRequest<typeof routes.FeedRoute>, res: RouteResponse<typeof routes.FeedRoute>) => feed.handle(req, res));
+
+/* -------------------- ADMIN ROUTES -------------------- */
+
+// Admin API: API keys (ADMIN_API_KEY, ADMIN_API_KEYS) or signed requests from ADMIN_WALLETS (see admin.ts).
+// Disabled when none are configured. Every non-GET request is written to the audit log.
+const admin = express.Router();
+app.use(
+  '/admin',
+  rateLimiter.limit('admin'),
+  auditAdminActions(redis),
+  createAdminAuth({
+    redis,
+    apiKeys: [...(ENV.ADMIN_API_KEY ? [{ name: 'default', key: ENV.ADMIN_API_KEY }] : []), ...ENV.ADMIN_API_KEYS],
+    wallets: ENV.ADMIN_WALLETS,
+    maxAgeMs: ENV.ADMIN_SIGNATURE_MAX_AGE_SECONDS * 1000,
+  }),
+  admin
+);
+
+/**
+ * Reload the prize table of every box (PRIZE_TABLE_PATH and each box's prizeTablePath).
+ * An invalid file is rejected and the current table of that file stays active.
+ */
+admin.post('/prizes/reload', validate(routes.AdminReloadPrizesRoute), async (_req: RouteRequest<typeof routes.AdminReloadPrizesRoute>, res: RouteResponse<typeof routes.AdminReloadPrizesRoute>) => {
+  try {
+    const tables = [];
+    for (const file of prizeTablePaths) {
+      const { table, warnings } = await reloadPrizeTable(redis, file);
+      tables.push({ file, version: table.version, warnings });
+    }
+    res.json({ ok: true, version: getActivePrizeTable(defaultBox.prizeTablePath).version, tables });
   } catch (e: any) {
-    console.error(e);
-    res.status(500).json({ ok: false, error: e?.message || String(e) });
+    fail(res, 'INVALID_CONFIG', e?.message || String(e));
   }
 });
 
+/**
+ * Prize NFT inventory: available count, reserved mints (with their payout) and low-stock state.
+ */
+admin.get('/inventory', validate(routes.AdminInventoryRoute), async (_req: RouteRequest<typeof routes.AdminInventoryRoute>, res: RouteResponse<typeof routes.AdminInventoryRoute>) => {
+  try {
+    res.json({ ok: true, ...(await getInventoryStatus(redis, ENV.NFT_LOW_STOCK_THRESHOLD)) });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/**
+ * Webhook endpoints (without secrets), queued deliveries and the latest dead letters.
+ * Query: ?limit=<1-1000>
+ */
+admin.get('/webhooks', validate(routes.AdminWebhooksRoute), async (req: RouteRequest<typeof routes.AdminWebhooksRoute>, res: RouteResponse<typeof routes.AdminWebhooksRoute>) => {
+  try {
+    res.json({
+      ok: true,
+      endpoints: webhooks.endpoints.map(({ id, url, events }) => ({ id, url, events: events ?? ['*'] })),
+      queued: await webhooks.queueSize(),
+      deadLetters: await webhooks.listDeadLetters(req.query.limit),
+    });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/**
+ * Requeue a dead-lettered webhook delivery with a fresh attempt count.
+ */
+admin.post('/webhooks/dead-letters/:id/retry', validate(routes.AdminRetryDeadLetterRoute), async (req: RouteRequest<typeof routes.AdminRetryDeadLetterRoute>, res: RouteResponse<typeof routes.AdminRetryDeadLetterRoute>) => {
+  try {
+    const requeued = await webhooks.retryDeadLetter(req.params.id);
+    if (!requeued) return fail(res, 'NOT_FOUND', 'Dead letter not found');
+    res.json({ ok: true });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+
+/**
+ * Opens, fees and payout outcomes per UTC day, broken down by box and prize kind, today first.
+ * Query: ?days=<1-90>
+ */
+admin.get('/stats', validate(routes.AdminStatsRoute), async (req: RouteRequest<typeof routes.AdminStatsRoute>, res: RouteResponse<typeof routes.AdminStatsRoute>) => {
+  try {
+    res.json({ ok: true, days: await getDailyStats(redis, req.query.days) });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/**
+ * Treasury SOL (with solvency and budgets), its fungible token balances, the prize NFTs it
+ * holds and the state of the prize inventory.
+ */
+admin.get('/treasury', validate(routes.AdminTreasuryRoute), async (_req: RouteRequest<typeof routes.AdminTreasuryRoute>, res: RouteResponse<typeof routes.AdminTreasuryRoute>) => {
+  try {
+    const prizeTable = await getEffectivePrizeTable(defaultBox);
+    const [solvency, tokenAccounts, owned, inventory] = await Promise.all([
+      getSolvencyReport(chain, redis, treasuryPubkey, prizeTable.prizes, solvencyConfig),
+      chain.getTokenAccounts(treasuryPubkey),
+      chain.assets.listOwned(treasuryPubkey),
+      getInventoryStatus(redis, ENV.NFT_LOW_STOCK_THRESHOLD),
+    ]);
+    res.json({
+      ok: true,
+      address: treasuryPubkey.toBase58(),
+      balanceSOL: solvency.balanceLamports / LAMPORTS_PER_SOL,
+      solvency,
+      tokens: tokenAccounts.filter((a) => !isNftAccount(a)),
+      prizeNfts: owned.filter((a) => inCollection(a, collectionKey(prizeCollection))),
+      inventory,
+    });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/** Current pauses (global has `box: null`). */
+admin.get('/pauses', validate(routes.AdminPausesRoute), async (_req: RouteRequest<typeof routes.AdminPausesRoute>, res: RouteResponse<typeof routes.AdminPausesRoute>) => {
+  try {
+    res.json({ ok: true, pauses: await listPauses(redis) });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/**
+ * Pause opening of one box, or of every box when `box` is omitted. /prepare-payment and
+ * /open answer 503 until it is resumed.
+ * POST { box?: <box id>, reason?: string }
+ */
+admin.post('/pause', validate(routes.AdminPauseRoute), async (req: RouteRequest<typeof routes.AdminPauseRoute>, res: RouteResponse<typeof routes.AdminPauseRoute>) => {
+  try {
+    const box = req.body.box ? findBox(req.body.box) : null;
+    if (req.body.box && !box) return fail(res, 'NOT_FOUND', 'Box not found');
+    const pause = await pauseOpening(redis, {
+      box: box?.id ?? null,
+      reason: req.body.reason ?? '',
+      by: req.adminActor!,
+    });
+    res.json({ ok: true, pause });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/**
+ * Resume opening of one box, or lift the global pause when `box` is omitted
+ * (a box paused on its own stays paused).
+ * POST { box?: <box id> }
+ */
+admin.post('/resume', validate(routes.AdminResumeRoute), async (req: RouteRequest<typeof routes.AdminResumeRoute>, res: RouteResponse<typeof routes.AdminResumeRoute>) => {
+  try {
+    const resumed = await resumeOpening(redis, req.body.box ?? null);
+    if (!resumed) return fail(res, 'NOT_FOUND', 'Not paused');
+    res.json({ ok: true, pauses: await listPauses(redis) });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/**
+ * Attempt a payout again now. A failed payout is requeued with a fresh attempt count (an
+ * NFT prize picks a new NFT); a queued or sending one is attempted right away.
+ */
+admin.post('/payouts/:id/retry', validate(routes.AdminRetryPayoutRoute), async (req: RouteRequest<typeof routes.AdminRetryPayoutRoute>, res: RouteResponse<typeof routes.AdminRetryPayoutRoute>) => {
+  try {
+    const payout = await retryPayout(payoutCtx, req.params.id);
+    if (!payout) return fail(res, 'NOT_FOUND', 'Payout not found');
+    if (payout.status === 'confirmed') {
+      return fail(res, 'CONFLICT', 'Payout is already confirmed', { txSig: payout.txSig ?? null });
+    }
+    processPayout(payoutCtx, payout.id).catch((e) => console.error(`Payout ${payout.id} failed:`, e));
+    res.json({ ok: true, payout: { id: payout.id, status: payout.status, attempts: payout.attempts } });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/**
+ * Reset a wallet's cooldown: forget its opens in the current window of one box, or of every
+ * box when `box` is omitted. In asset charge mode the NFTs it holds that are charged to it
+ * are freed too.
+ * POST { box?: <box id> }
+ */
+admin.post('/wallets/:owner/reset-cooldown', validate(routes.AdminResetCooldownRoute), async (req: RouteRequest<typeof routes.AdminResetCooldownRoute>, res: RouteResponse<typeof routes.AdminResetCooldownRoute>) => {
+  try {
+    const owner = req.params.owner;
+    const box = req.body.box ? findBox(req.body.box) : null;
+    if (req.body.box && !box) return fail(res, 'NOT_FOUND', 'Box not found');
+    const targets = box ? [box] : boxList;
+    const mints = ENV.OPEN_CHARGE_MODE === 'asset'
+      ? (await eligibility.check(owner)).collections.flatMap((c) => c.mints)
+      : [];
+    const releasedAssets: string[] = [];
+    for (const target of targets) {
+      await resetOpens(redis, owner, target.id);
+      for (const mint of mints) {
+        if (await releaseAsset(redis, owner, mint, target.id)) releasedAssets.push(mint);
+      }
+    }
+    res.json({ ok: true, owner: owner.toBase58(), boxes: targets.map((b) => b.id), releasedAssets });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/** Banned wallets, newest first. */
+admin.get('/bans', validate(routes.AdminBansRoute), async (_req: RouteRequest<typeof routes.AdminBansRoute>, res: RouteResponse<typeof routes.AdminBansRoute>) => {
+  try {
+    res.json({ ok: true, bans: await listBans(redis) });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/**
+ * Ban a wallet: /prepare-payment and /open refuse it (403). A payment it makes anyway is kept as a credit.
+ * POST { owner: <pubkeyBase58>, reason?: string }
+ */
+admin.post('/bans', validate(routes.AdminBanRoute), async (req: RouteRequest<typeof routes.AdminBanRoute>, res: RouteResponse<typeof routes.AdminBanRoute>) => {
+  try {
+    const ban = await banWallet(redis, {
+      owner: req.body.owner.toBase58(),
+      reason: req.body.reason ?? '',
+      by: req.adminActor!,
+    });
+    res.json({ ok: true, ban });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/** Lift a wallet's ban. */
+admin.delete('/bans/:owner', validate(routes.AdminUnbanRoute), async (req: RouteRequest<typeof routes.AdminUnbanRoute>, res: RouteResponse<typeof routes.AdminUnbanRoute>) => {
+  try {
+    const unbanned = await unbanWallet(redis, req.params.owner.toBase58());
+    if (!unbanned) return fail(res, 'NOT_FOUND', 'Wallet is not banned');
+    res.json({ ok: true });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/**
+ * Audit log of admin actions, newest first: actor, route, parameters and response status.
+ * Query: ?limit=<1-200>&cursor=<nextCursor from the previous page>
+ */
+admin.get('/audit', validate(routes.AdminAuditRoute), async (req: RouteRequest<typeof routes.AdminAuditRoute>, res: RouteResponse<typeof routes.AdminAuditRoute>) => {
+  try {
+    res.json({ ok: true, ...(await listAudit(redis, req.query.limit, req.query.cursor)) });
+  } catch (e) {
+    sendError(res, e);
+  }
+});
+
+/* -------------------- SANDBOX (SANDBOX=1 only) -------------------- */
+
+if (sandbox) {
+  /**
+   * Stand-in for the wallet: execute a transaction from /prepare-payment as if its payer
+   * signed and sent it. Returns the signature to pass to /open.
+   * POST { txBase64 }
+   */
+  app.post('/sandbox/pay', validate(routes.SandboxPayRoute), async (req: RouteRequest<typeof routes.SandboxPayRoute>, res: RouteResponse<typeof routes.SandboxPayRoute>) => {
+    try {
+      const signature = sandbox.submit(Buffer.from(req.body.txBase64, 'base64'));
+      res.json({ ok: true, signature });
+    } catch (e: any) {
+      fail(res, 'TRANSACTION_FAILED', e?.message || String(e));
+    }
+  });
+
+  /**
+   * Add SOL, tokens and NFTs to a wallet, in the format of the seed file.
+   * POST { owner, lamports?, tokens?: { <mint>: <ui amount> }, nfts?: [{ id, standard?, collection?, symbol? }] }
+   */
+  app.post('/sandbox/airdrop', validate(routes.SandboxAirdropRoute), async (req: RouteRequest<typeof routes.SandboxAirdropRoute>, res: RouteResponse<typeof routes.SandboxAirdropRoute>) => {
+    try {
+      const { owner, ...wallet } = req.body;
+      sandbox.fund(owner, wallet);
+      res.json({ ok: true, wallet: sandbox.describeWallet(owner) });
+    } catch (e: any) {
+      // e.g. a token mint that isn't in the seed file
+      fail(res, 'INVALID_REQUEST', e?.message || String(e));
+    }
+  });
+
+  /** SOL, token balances and NFTs of a sandbox wallet. */
+  app.get('/sandbox/wallets/:owner', validate(routes.SandboxWalletRoute), async (req: RouteRequest<typeof routes.SandboxWalletRoute>, res: RouteResponse<typeof routes.SandboxWalletRoute>) => {
+    try {
+      res.json({ ok: true, wallet: sandbox.describeWallet(req.params.owner) });
+    } catch (e) {
+      sendError(res, e);
+    }
+  });
+}
+
+// Malformed JSON bodies and anything a route passed on
+app.use(errorHandler);
+
 /* -------------------- START SERVER -------------------- */
-app.listen(ENV.PORT, () => {
-  console.log(`[daily-free-box] Listening on :${ENV.PORT}`);
+const server = app.listen(ENV.PORT, () => {
+  console.log(`[daily-free-box] Listening on :${(server.address() as AddressInfo).port}`);
   console.log(`Treasury: ${treasuryPubkey.toBase58()}`);
+  if (sandbox) console.log('[sandbox] Offline mode: in-memory chain and Redis, nothing is persisted');
 });
 
+startPayoutWorker(payoutCtx, ENV.PAYOUT_WORKER_INTERVAL_MS);
+setInterval(() => {
+  recoverOpens().catch((e) => console.error('Open recovery error:', e));
+}, OPEN_RECOVERY_INTERVAL_MS);
+startWebhookWorker(webhooks, ENV.WEBHOOK_WORKER_INTERVAL_MS);
+startInventoryRefresher(
+  redis, chain.assets, treasuryPubkey, collectionKey(prizeCollection), ENV.INVENTORY_REFRESH_MS,
+  async (available) => {
+    if (await markLowStock(redis, available < ENV.NFT_LOW_STOCK_THRESHOLD)) {
+      await webhooks.emit('inventory.low', { available, threshold: ENV.NFT_LOW_STOCK_THRESHOLD });
+    }
+  }
+);
+
@@ -0,0 +1,105 @@
+import { PublicKey, TransactionInstruction } from '@solana/web3.js';
+import Redis from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+
+import { PaymentQuote } from './payment.js';
+
+/**
+ * Open intents bind a payment to one box open.
+ *
+ * `/prepare-payment` creates a short-lived intent and puts its id in a Memo instruction
+ * on the payment transaction. `/open` only accepts a payment whose memo names an
+ * unexpired intent for the same owner, and consumes the intent so it can't be reused.
+ * Intents are kept for a few days after they expire, so a payment that never opened a
+ * box can still be verified for a credit or refund.
+ */
+
+export const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+const MEMO_PREFIX = 'box-open:';
+// Keep the intent (and which payment consumed it) around after it expires, for late /open,
+// credits and refunds. Shorter than the 7-day signature claim in limits.ts.
+const INTENT_RETENTION_MS = 6 * 24 * 60 * 60 * 1000;
+
+export type OpenIntent = {
+  id: string;
+  owner: string;
+  box?: string; // missing on intents created before boxes = the default box
+  clientSeed: string;
+  serverSeedId?: string; // the seed committed to at prepare; missing on older intents = the active seed
+  quote: PaymentQuote;
+  createdAt: number;
+  expiresAt: number;
+};
+
+function intentKey(id: string) {
+  return `intent:${id}`;
+}
+function intentConsumedKey(id: string) {
+  return `intent:${id}:consumed`;
+}
+
+export async function createOpenIntent(
+  redis: Redis,
+  input: { owner: PublicKey; box: string; clientSeed: string; serverSeedId: string; quote: PaymentQuote },
+  ttlMs: number
+): Promise<OpenIntent> {
+  const now = Date.now();
+  const intent: OpenIntent = {
+    id: uuidv4(),
+    owner: input.owner.toBase58(),
+    box: input.box,
+    clientSeed: input.clientSeed,
+    serverSeedId: input.serverSeedId,
+    quote: input.quote,
+    createdAt: now,
+    expiresAt: now + ttlMs,
+  };
+  await redis.set(intentKey(intent.id), JSON.stringify(intent), 'PX', ttlMs + INTENT_RETENTION_MS);
+  return intent;
+}
+
+export async function getOpenIntent(redis: Redis, id: string): Promise<OpenIntent | null> {
+  const raw = await redis.get(intentKey(id));
+  return raw ? (JSON.parse(raw) as OpenIntent) : null;
+}
+
+/** Memo instruction naming the intent, signed by the owner. */
+export function buildIntentMemoInstruction(intent: OpenIntent, owner: PublicKey): TransactionInstruction {
+  return new TransactionInstruction({
+    keys: [{ pubkey: owner, isSigner: true, isWritable: false }],
+    programId: MEMO_PROGRAM_ID,
+    data: Buffer.from(`${MEMO_PREFIX}${intent.id}`, 'utf8'),
+  });
+}
+
+/** Extract the intent id from memo text, or null if the memo isn't one of ours. */
+export function parseIntentMemo(memo: string): string | null {
+  return memo.startsWith(MEMO_PREFIX) ? memo.slice(MEMO_PREFIX.length) : null;
+}
+
+/**
+ * Consume an intent for a verified payment. Fails if the intent is unknown, belongs to
+ * another owner, was paid after it expired, or was already consumed. `spent` is set when
+ * it was consumed by this same payment, i.e. the payment has already opened a box.
+ */
+export async function consumeOpenIntent(
+  redis: Redis,
+  id: string,
+  owner: PublicKey,
+  signature: string,
+  paidAtMs: number
+): Promise<{ ok: true; intent: OpenIntent } | { ok: false; err: string; spent?: boolean }> {
+  const intent = await getOpenIntent(redis, id);
+  if (!intent) return { ok: false, err: 'Unknown or expired open intent' };
+  if (intent.owner !== owner.toBase58()) return { ok: false, err: 'Open intent belongs to another owner' };
+  if (paidAtMs > intent.expiresAt) return { ok: false, err: 'Payment was made after the open intent expired' };
+
+  const ttl = Math.max(1, intent.expiresAt + INTENT_RETENTION_MS - Date.now());
+  const consumed = await redis.set(intentConsumedKey(id), signature, 'PX', ttl, 'NX');
+  if (!consumed) {
+    const spent = (await redis.get(intentConsumedKey(id))) === signature;
+    return { ok: false, err: spent ? 'Payment already used for an open' : 'Open intent already used', spent };
+  }
+  return { ok: true, intent };
+}
@@ -0,0 +1,203 @@
+/* eslint-disable no-console */
+import { PublicKey } from '@solana/web3.js';
+import Redis from 'ioredis';
+
+import { AssetLayer, AssetRef, AssetStandard, inCollection } from './assets.js';
+import { PrizeKind } from './rewards.js';
+
+/**
+ * Index of prize NFTs in the treasury.
+ *
+ * Eligible assets live in a Redis set (as `<standard>:<id>`) that is rebuilt on a schedule.
+ * Each NFT win pops one into the reserved hash (so two winners never get the same NFT);
+ * the reservation is dropped once the payout confirms, or the asset goes back to the set
+ * if the payout fails and the treasury still holds it.
+ *
+ * Assets that left the treasury are remembered for a while in a consumed set, and a refresh
+ * skips them as well as reserved ones: the holdings it rebuilds from may have been read
+ * before a transfer, or come from an indexer that lags behind the chain.
+ */
+
+export type InventoryReservation = AssetRef & { payoutId: string; reservedAt: number };
+
+const AVAILABLE_KEY = 'inventory:available';
+const RESERVED_KEY = 'inventory:reserved';
+const REFRESHED_AT_KEY = 'inventory:refreshedAt';
+const LOW_STOCK_KEY = 'inventory:lowStock';
+const CONSUMED_KEY = 'inventory:consumed';
+const RECENTLY_CONSUMED_MS = 60 * 60 * 1000;
+
+// KEYS = available, reserved; ARGV = payoutId, now. Returns the reserved item or nil.
+const RESERVE_LUA = `
+local item = redis.call('SPOP', KEYS[1])
+if not item then return nil end
+redis.call('HSET', KEYS[2], item, cjson.encode({ item = item, payoutId = ARGV[1], reservedAt = tonumber(ARGV[2]) }))
+return item
+`;
+
+// KEYS = available, reserved; ARGV = item. Puts a reserved item back.
+const RELEASE_LUA = `
+if redis.call('HDEL', KEYS[2], ARGV[1]) == 1 then
+  redis.call('SADD', KEYS[1], ARGV[1])
+  return 1
+end
+return 0
+`;
+
+// KEYS = available, reserved, consumed; ARGV = item, now. Forgets an asset that left the treasury.
+const CONSUME_LUA = `
+redis.call('HDEL', KEYS[2], ARGV[1])
+redis.call('SREM', KEYS[1], ARGV[1])
+redis.call('ZADD', KEYS[3], ARGV[2], ARGV[1])
+return 1
+`;
+
+// KEYS = available, reserved, refreshedAt, consumed; ARGV = now, consumedCutoff, items...
+// Rebuilds the set, skipping reserved and recently consumed items.
+const REFRESH_LUA = `
+redis.call('ZREMRANGEBYSCORE', KEYS[4], 0, ARGV[2])
+redis.call('DEL', KEYS[1])
+for i = 3, #ARGV do
+  if redis.call('HEXISTS', KEYS[2], ARGV[i]) == 0 and not redis.call('ZSCORE', KEYS[4], ARGV[i]) then
+    redis.call('SADD', KEYS[1], ARGV[i])
+  end
+end
+redis.call('SET', KEYS[3], ARGV[1])
+return redis.call('SCARD', KEYS[1])
+`;
+
+function itemKey(asset: AssetRef) {
+  return `${asset.standard}:${asset.id}`;
+}
+function parseItem(item: string): AssetRef {
+  const i = item.indexOf(':');
+  return { standard: item.slice(0, i) as AssetStandard, id: item.slice(i + 1) };
+}
+
+/** NFT assets in a (resolved) prize, including bundle items. */
+export function prizeNftAssets(prize: PrizeKind): AssetRef[] {
+  if (prize.kind === 'NFT') return prize.mint ? [{ standard: prize.standard ?? 'nft', id: prize.mint }] : [];
+  if (prize.kind === 'BUNDLE') return prize.items.flatMap(prizeNftAssets);
+  return [];
+}
+
+/** Rebuild the available set from the NFTs the treasury currently holds. Returns the available count. */
+export async function refreshInventory(
+  redis: Redis,
+  assets: AssetLayer,
+  treasury: PublicKey,
+  collection: PublicKey | string
+): Promise<number> {
+  const owned = await assets.listOwned(treasury);
+  const items = owned.filter((a) => inCollection(a, collection)).map(itemKey);
+  const now = Date.now();
+  const available = await redis.eval(
+    REFRESH_LUA,
+    4,
+    AVAILABLE_KEY,
+    RESERVED_KEY,
+    REFRESHED_AT_KEY,
+    CONSUMED_KEY,
+    now,
+    now - RECENTLY_CONSUMED_MS,
+    ...items
+  );
+  return Number(available);
+}
+
+/** Atomically take one available asset for `payoutId`. Null when the inventory is empty. */
+export async function reserveInventoryAsset(redis: Redis, payoutId: string): Promise<AssetRef | null> {
+  const item = (await redis.eval(RESERVE_LUA, 2, AVAILABLE_KEY, RESERVED_KEY, payoutId, Date.now())) as string | null;
+  return item ? parseItem(item) : null;
+}
+
+/** Return a reserved asset to the available set (its payout failed). Only for assets the treasury still holds. */
+export async function releaseInventoryAsset(redis: Redis, asset: AssetRef) {
+  await redis.eval(RELEASE_LUA, 2, AVAILABLE_KEY, RESERVED_KEY, itemKey(asset));
+}
+
+/** Drop a reservation without making the asset available; the next refresh re-adds it if the treasury holds it. */
+export async function dropInventoryReservation(redis: Redis, asset: AssetRef) {
+  await redis.hdel(RESERVED_KEY, itemKey(asset));
+}
+
+/** Forget an asset that has left the treasury (sent, or found missing), so refreshes skip it for a while. */
+export async function consumeInventoryAsset(redis: Redis, asset: AssetRef) {
+  await redis.eval(CONSUME_LUA, 3, AVAILABLE_KEY, RESERVED_KEY, CONSUMED_KEY, itemKey(asset), Date.now());
+}
+
+/** Split `assets` into those `treasury` holds and those it doesn't, from its current holdings on chain. */
+export async function checkTreasuryHolds(
+  assets: AssetLayer,
+  treasury: PublicKey,
+  refs: AssetRef[]
+): Promise<{ held: AssetRef[]; missing: AssetRef[] }> {
+  if (refs.length === 0) return { held: [], missing: [] };
+  const owned = new Set((await assets.listOwned(treasury)).map(itemKey));
+  return {
+    held: refs.filter((a) => owned.has(itemKey(a))),
+    missing: refs.filter((a) => !owned.has(itemKey(a))),
+  };
+}
+
+/**
+ * Counts, reservations and whether stock is below `lowStockThreshold`.
+ * Stock is never reported low before the first refresh has finished.
+ */
+export async function getInventoryStatus(redis: Redis, lowStockThreshold: number) {
+  const [available, reserved, refreshedAt] = await Promise.all([
+    redis.scard(AVAILABLE_KEY),
+    redis.hvals(RESERVED_KEY),
+    redis.get(REFRESHED_AT_KEY),
+  ]);
+  return {
+    available,
+    reserved: reserved.map((r): InventoryReservation => {
+      const { item, payoutId, reservedAt } = JSON.parse(r) as { item: string; payoutId: string; reservedAt: number };
+      return { ...parseItem(item), payoutId, reservedAt };
+    }),
+    refreshedAt: refreshedAt ? Number(refreshedAt) : null,
+    lowStockThreshold,
+    lowStock: refreshedAt !== null && available < lowStockThreshold,
+  };
+}
+
+/**
+ * Record whether stock is below the threshold. Returns true only when it has just become
+ * low (across instances), so a low-stock alert goes out once per dip.
+ */
+export async function markLowStock(redis: Redis, low: boolean): Promise<boolean> {
+  if (!low) {
+    await redis.del(LOW_STOCK_KEY);
+    return false;
+  }
+  return (await redis.set(LOW_STOCK_KEY, String(Date.now()), 'NX')) === 'OK';
+}
+
+/** Refresh now and then on an interval, calling `onRefresh` with the available count. Returns a function that stops the refresher. */
+export function startInventoryRefresher(
+  redis: Redis,
+  assets: AssetLayer,
+  treasury: PublicKey,
+  collection: PublicKey | string,
+  intervalMs: number,
+  onRefresh?: (available: number) => Promise<void>
+): () => void {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const available = await refreshInventory(redis, assets, treasury, collection);
+      console.log(`[inventory] ${available} prize NFTs available`);
+      await onRefresh?.(available);
+    } catch (e) {
+      console.error('Inventory refresh error:', e);
+    } finally {
+      running = false;
+    }
+  };
+  run();
+  const timer = setInterval(run, intervalMs);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,152 @@
+import Redis from 'ioredis';
+
+import { PrizeDescription } from './prizePayouts.js';
+import { PayoutType } from './payouts.js';
+import { ProgressionEffect } from './progression.js';
+import { utcDay } from './utils.js';
+import { DEFAULT_BOX_ID } from './boxes.js';
+
+/**
+ * Append-only prize ledger in Redis streams.
+ *
+ * Every open is appended to `ledger:opens` and to the owner's own stream (for paginated
+ * history); wins also go to a capped `ledger:wins` stream for the frontend. Payout
+ * outcomes are appended to `ledger:payouts` as they happen rather than rewriting the
+ * open entry.
+ *
+ * Both also bump per-day counters (`stats:<day>`, UTC) for the admin stats: opens per box
+ * and per prize kind, fees taken, payout outcomes per prize kind, and refund outcomes.
+ */
+
+export type LedgerOpenEntry = {
+  owner: string;
+  box?: string;
+  intentId: string;
+  paymentSignature: string;
+  payment: { currency: string; mint?: string; amount: string };
+  roll: { serverSeedHash: string; clientSeed: string; nonce: number; roll: number; prizeTableVersion: string };
+  prize: PrizeDescription;
+  // The rolled prize, when budgets or treasury balance forced a smaller one
+  downgradedFrom?: PrizeDescription;
+  // Progression rule (pity or streak) that changed the odds of this roll
+  progression?: ProgressionEffect;
+  payoutId: string | null;
+  openedAt: number;
+};
+
+export type LedgerPayoutEntry = {
+  payoutId: string;
+  type?: PayoutType; // missing = prize
+  owner: string;
+  paymentSignature: string;
+  status: string;
+  txSig: string | null;
+  prize: PrizeDescription;
+  at: number;
+};
+
+const OPENS_KEY = 'ledger:opens';
+const WINS_KEY = 'ledger:wins';
+const PAYOUTS_KEY = 'ledger:payouts';
+const WINS_KEEP = 1000;
+const STATS_TTL_SECONDS = 400 * 24 * 60 * 60;
+
+export type DailyStats = {
+  day: string;
+  opens: { total: number; byBox: Record<string, number>; byPrize: Record<string, number> };
+  // Fees taken: lamports, and raw amounts per token mint
+  paid: { lamports: string; tokens: Record<string, string> };
+  payouts: { confirmed: number; failed: number; byKind: Record<string, { confirmed: number; failed: number }> };
+  refunds: { confirmed: number; failed: number };
+};
+
+function ownerLedgerKey(owner: string) {
+  return `ledger:owner:${owner}`;
+}
+function statsKey(day: string) {
+  return `stats:${day}`;
+}
+
+export async function appendOpen(redis: Redis, entry: LedgerOpenEntry) {
+  const data = JSON.stringify(entry);
+  const stats = statsKey(utcDay(entry.openedAt));
+  const paid = entry.payment.currency === 'TOKEN' ? `paid:token:${entry.payment.mint}` : 'paid:lamports';
+  const multi = redis.multi()
+    .xadd(OPENS_KEY, '*', 'entry', data)
+    .xadd(ownerLedgerKey(entry.owner), '*', 'entry', data)
+    .hincrby(stats, 'opens', 1)
+    .hincrby(stats, `opens:box:${entry.box ?? DEFAULT_BOX_ID}`, 1)
+    .hincrby(stats, `opens:prize:${entry.prize.kind}`, 1)
+    .hincrby(stats, paid, entry.payment.amount)
+    .expire(stats, STATS_TTL_SECONDS);
+  if (entry.prize.kind !== 'NOTHING') {
+    multi.xadd(WINS_KEY, 'MAXLEN', '~', WINS_KEEP, '*', 'entry', data);
+  }
+  await multi.exec();
+}
+
+export async function appendPayout(redis: Redis, entry: LedgerPayoutEntry) {
+  const stats = statsKey(utcDay(entry.at));
+  const multi = redis.multi().xadd(PAYOUTS_KEY, '*', 'entry', JSON.stringify(entry));
+  if (entry.type === 'refund') {
+    multi.hincrby(stats, `refunds:${entry.status}`, 1);
+  } else {
+    multi
+      .hincrby(stats, `payouts:${entry.status}`, 1)
+      .hincrby(stats, `payouts:${entry.status}:${entry.prize.kind}`, 1);
+  }
+  await multi.expire(stats, STATS_TTL_SECONDS).exec();
+}
+
+function parseStats(day: string, fields: Record<string, string>): DailyStats {
+  const stats: DailyStats = {
+    day,
+    opens: { total: Number(fields.opens || 0), byBox: {}, byPrize: {} },
+    paid: { lamports: fields['paid:lamports'] || '0', tokens: {} },
+    payouts: { confirmed: Number(fields['payouts:confirmed'] || 0), failed: Number(fields['payouts:failed'] || 0), byKind: {} },
+    refunds: { confirmed: Number(fields['refunds:confirmed'] || 0), failed: Number(fields['refunds:failed'] || 0) },
+  };
+  for (const [field, value] of Object.entries(fields)) {
+    const [group, sub, ...rest] = field.split(':');
+    const name = rest.join(':');
+    if (group === 'opens' && sub === 'box') stats.opens.byBox[name] = Number(value);
+    else if (group === 'opens' && sub === 'prize') stats.opens.byPrize[name] = Number(value);
+    else if (group === 'paid' && sub === 'token') stats.paid.tokens[name] = value;
+    else if (group === 'payouts' && (sub === 'confirmed' || sub === 'failed') && name) {
+      stats.payouts.byKind[name] ??= { confirmed: 0, failed: 0 };
+      stats.payouts.byKind[name][sub] = Number(value);
+    }
+  }
+  return stats;
+}
+
+/** Counters of the last `days` UTC days, today first. */
+export async function getDailyStats(redis: Redis, days: number, now = Date.now()): Promise<DailyStats[]> {
+  const list = Array.from({ length: days }, (_, i) => utcDay(now - i * 24 * 60 * 60 * 1000));
+  const rows = await Promise.all(list.map((day) => redis.hgetall(statsKey(day))));
+  return list.map((day, i) => parseStats(day, rows[i]));
+}
+
+function parseEntries<T>(rows: [string, string[]][]): (T & { id: string })[] {
+  return rows.map(([id, fields]) => {
+    const i = fields.indexOf('entry');
+    return { id, ...(JSON.parse(fields[i + 1]) as T) };
+  });
+}
+
+/**
+ * Page through an owner's opens, newest first. Pass the returned `nextCursor`
+ * to get the next page; it is null on the last page.
+ */
+export async function getOwnerHistory(redis: Redis, owner: string, limit: number, cursor?: string) {
+  const start = cursor ? `(${cursor}` : '+';
+  const rows = await redis.xrevrange(ownerLedgerKey(owner), start, '-', 'COUNT', limit);
+  const entries = parseEntries<LedgerOpenEntry>(rows);
+  const nextCursor = entries.length === limit ? entries[entries.length - 1].id : null;
+  return { entries, nextCursor };
+}
+
+export async function getRecentWins(redis: Redis, limit: number) {
+  const rows = await redis.xrevrange(WINS_KEY, '+', '-', 'COUNT', limit);
+  return parseEntries<LedgerOpenEntry>(rows);
+}
@@ -0,0 +1,163 @@
+import { PublicKey } from '@solana/web3.js';
+import Redis from 'ioredis';
+
+import { DEFAULT_BOX_ID } from './boxes.js';
+
+/**
+ * Open accounting in Redis.
+ *
+ * Opens are members of a per-owner sorted set scored by time. `reserveOpen` checks the
+ * limit and adds the reservation in one Lua script, so parallel `/open` calls can't all
+ * pass the check. A reservation is released only if the open fails before the roll.
+ *
+ * In asset charge mode an open is also charged to one gating NFT (`asset:<mint>`), so the
+ * NFT can't be moved to another wallet to unlock more opens in the same window.
+ *
+ * Opens and charges are counted per box; the default box keeps the unprefixed keys.
+ */
+
+export type AssetCharge = { owner: string; until: number };
+
+const SIGNATURE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// KEYS[1] = opens key; ARGV = now, cutoff, limit, member, ttlSeconds
+// Returns { reserved (0/1), used (after reserving) }
+const RESERVE_OPEN_LUA = `
+redis.call('ZREMRANGEBYSCORE', KEYS[1], 0, ARGV[2])
+local used = redis.call('ZCARD', KEYS[1])
+if used >= tonumber(ARGV[3]) then
+  return {0, used}
+end
+redis.call('ZADD', KEYS[1], ARGV[1], ARGV[4])
+redis.call('EXPIRE', KEYS[1], ARGV[5])
+return {1, used + 1}
+`;
+
+function boxScope(box: string) {
+  return box === DEFAULT_BOX_ID ? '' : `${box}:`;
+}
+function openKey(owner: PublicKey, box: string) {
+  return `opens:${boxScope(box)}${owner.toBase58()}`;
+}
+function sigKey(sig: string) {
+  return `sig:${sig}`;
+}
+function assetKey(mint: string, box: string) {
+  return `asset:${boxScope(box)}${mint}`;
+}
+
+// KEYS[1] = asset key; ARGV[1] = owner. Deletes the charge only if it is still the owner's.
+const RELEASE_ASSET_LUA = `
+local raw = redis.call('GET', KEYS[1])
+if raw and cjson.decode(raw).owner == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+export async function getOpensRemaining(
+  redis: Redis,
+  owner: PublicKey,
+  limit: number,
+  windowMs: number,
+  box = DEFAULT_BOX_ID
+): Promise<{ remaining: number; used: number; limit: number; cooldownMs: number }> {
+  const key = openKey(owner, box);
+  const now = Date.now();
+  const cutoff = now - windowMs;
+
+  // Remove stale entries
+  await redis.zremrangebyscore(key, 0, cutoff);
+
+  // Count used opens
+  const used = await redis.zcard(key);
+  const remaining = Math.max(0, limit - used);
+
+  // Determine time until next available open (cooldown)
+  let cooldownMs = 0;
+  if (remaining === 0) {
+    // Get oldest entry timestamp
+    const oldestArr = await redis.zrange(key, 0, 0, 'WITHSCORES');
+    if (oldestArr.length === 2) {
+      const oldestTimestamp = parseInt(oldestArr[1], 10);
+      cooldownMs = Math.max(0, windowMs - (now - oldestTimestamp));
+    } else {
+      cooldownMs = windowMs;
+    }
+  }
+
+  return { remaining, used, limit, cooldownMs };
+}
+
+/**
+ * Atomically check the limit and reserve one open for `reservationId`.
+ * The reservation counts as a used open until it is released.
+ */
+export async function reserveOpen(
+  redis: Redis,
+  owner: PublicKey,
+  limit: number,
+  windowMs: number,
+  reservationId: string,
+  box = DEFAULT_BOX_ID
+): Promise<{ reserved: boolean; used: number }> {
+  const now = Date.now();
+  const [reserved, used] = (await redis.eval(
+    RESERVE_OPEN_LUA,
+    1,
+    openKey(owner, box),
+    now,
+    now - windowMs,
+    limit,
+    reservationId,
+    Math.ceil(windowMs / 1000)
+  )) as [number, number];
+  return { reserved: reserved === 1, used };
+}
+
+export async function releaseOpen(redis: Redis, owner: PublicKey, reservationId: string, box = DEFAULT_BOX_ID) {
+  await redis.zrem(openKey(owner, box), reservationId);
+}
+
+/** Claim a payment signature for one open (prevents re-use up to 7 days). False if already claimed. */
+export async function claimSignature(redis: Redis, signature: string): Promise<boolean> {
+  const claimed = await redis.set(sigKey(signature), '1', 'EX', SIGNATURE_TTL_SECONDS, 'NX');
+  return claimed === 'OK';
+}
+
+export async function releaseSignature(redis: Redis, signature: string) {
+  await redis.del(sigKey(signature));
+}
+
+/** Current charges for `mints`, in the same order (null = fresh). */
+export async function getAssetCharges(redis: Redis, mints: string[], box = DEFAULT_BOX_ID): Promise<(AssetCharge | null)[]> {
+  if (mints.length === 0) return [];
+  const raw = await redis.mget(mints.map((mint) => assetKey(mint, box)));
+  return raw.map((r) => (r ? (JSON.parse(r) as AssetCharge) : null));
+}
+
+/** Charge one open to the first of `mints` that is still fresh. Returns the charged mint, or null. */
+export async function chargeAsset(
+  redis: Redis,
+  owner: PublicKey,
+  mints: string[],
+  windowMs: number,
+  box = DEFAULT_BOX_ID
+): Promise<string | null> {
+  const charge: AssetCharge = { owner: owner.toBase58(), until: Date.now() + windowMs };
+  for (const mint of mints) {
+    const ok = await redis.set(assetKey(mint, box), JSON.stringify(charge), 'PX', windowMs, 'NX');
+    if (ok === 'OK') return mint;
+  }
+  return null;
+}
+
+/** Drop the charge of `mint` if it is `owner`'s. False if it wasn't charged to them. */
+export async function releaseAsset(redis: Redis, owner: PublicKey, mint: string, box = DEFAULT_BOX_ID): Promise<boolean> {
+  return Number(await redis.eval(RELEASE_ASSET_LUA, 1, assetKey(mint, box), owner.toBase58())) === 1;
+}
+
+/** Forget every open of `owner` in the current window of `box` (admin cooldown reset). */
+export async function resetOpens(redis: Redis, owner: PublicKey, box = DEFAULT_BOX_ID) {
+  await redis.del(openKey(owner, box));
+}
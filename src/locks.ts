@@ -0,0 +1,28 @@
+import { randomBytes } from 'crypto';
+import Redis from 'ioredis';
+
+/**
+ * Short-lived Redis locks.
+ *
+ * Each holder stores a random token in the lock and releases it with a compare-and-delete,
+ * so a holder whose lock has expired can't release a lock someone else has taken since.
+ */
+
+// KEYS[1] = lock key; ARGV[1] = token. Deletes the lock only if it still holds the token.
+const RELEASE_LUA = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/** Take the lock for `ttlMs`. Returns the token to release it with, or null if it is held. */
+export async function acquireLock(redis: Redis, key: string, ttlMs: number): Promise<string | null> {
+  const token = randomBytes(16).toString('hex');
+  return (await redis.set(key, token, 'PX', ttlMs, 'NX')) === 'OK' ? token : null;
+}
+
+/** Release the lock if it is still ours. False if it expired (and maybe went to someone else). */
+export async function releaseLock(redis: Redis, key: string, token: string): Promise<boolean> {
+  return Number(await redis.eval(RELEASE_LUA, 1, key, token)) === 1;
+}
@@ -0,0 +1,36 @@
+import { PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+
+/**
+ * Transfers of Metaplex Core assets, encoded by hand.
+ * Core instructions are a one-byte variant index followed by borsh args; optional
+ * accounts that aren't passed are filled with the program id.
+ */
+
+export const MPL_CORE_PROGRAM_ID = new PublicKey('CoREENxT6tW1HoK8ypY1SxRMZTcVPm7R94rH4PZNhX7d');
+
+const TRANSFER_V1 = 14;
+
+export function buildCoreTransferInstructions(
+  asset: PublicKey,
+  collection: PublicKey | null,
+  owner: PublicKey,
+  recipient: PublicKey
+): TransactionInstruction[] {
+  // TransferV1Args { compression_proof: Option<CompressionProof> = None }
+  const data = Buffer.from([TRANSFER_V1, 0]);
+  return [
+    new TransactionInstruction({
+      programId: MPL_CORE_PROGRAM_ID,
+      keys: [
+        { pubkey: asset, isSigner: false, isWritable: true },
+        { pubkey: collection ?? MPL_CORE_PROGRAM_ID, isSigner: false, isWritable: false },
+        { pubkey: owner, isSigner: true, isWritable: true }, // payer
+        { pubkey: owner, isSigner: true, isWritable: false }, // authority
+        { pubkey: recipient, isSigner: false, isWritable: false },
+        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+        { pubkey: MPL_CORE_PROGRAM_ID, isSigner: false, isWritable: false }, // log wrapper
+      ],
+      data,
+    }),
+  ];
+}
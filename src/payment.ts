@@ -0,0 +1,267 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import bs58 from 'bs58';
+
+import { MEMO_PROGRAM_ID } from './intents.js';
+import { uiToRawAmount } from './utils.js';
+import { ChainGateway } from './chain.js';
+
+const LEGACY_MEMO_PROGRAM_ID = new PublicKey('Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo');
+
+// SystemProgram instruction indexes (u32 LE at the start of the instruction data)
+const SYSTEM_IX_TRANSFER = 2;
+const SYSTEM_IX_TRANSFER_WITH_SEED = 11;
+
+export type TxVersion = 'legacy' | 'v0';
+
+/**
+ * Price of one open in a given currency. Token amounts are raw base units
+ * (stringified so quotes can be stored as JSON). `programId` is the token program that
+ * owns the mint (SPL Token or token-2022); missing on quotes made before it was recorded
+ * = SPL Token.
+ */
+export type PaymentQuote =
+  | { currency: 'SOL'; amount: string }
+  | { currency: 'TOKEN'; mint: string; amount: string; decimals: number; programId?: string };
+
+export type LoadedPayment = {
+  slot: number;
+  blockTime?: number;
+  memos: string[];
+  instructions: FlatInstruction[];
+  tokenBalances: { pre: TokenBalance[]; post: TokenBalance[] };
+};
+
+export type PaymentVerification = {
+  ok: boolean;
+  currency: PaymentQuote['currency'];
+  amountToTreasury: string;
+  slot?: number;
+  blockTime?: number;
+  err?: string;
+};
+
+export type TokenBalance = {
+  accountIndex: number;
+  mint: string;
+  owner?: string;
+  uiTokenAmount: { amount: string; decimals: number };
+};
+
+export type FlatInstruction = { programId: PublicKey | undefined; accounts: (PublicKey | undefined)[]; data: Buffer };
+
+/**
+ * Decode a SystemProgram transfer. Returns null for any other system instruction.
+ * Transfer: [from, to]; TransferWithSeed: [from, base, to]; lamports is a u64 at offset 4 for both.
+ */
+export function decodeSystemTransfer(ix: FlatInstruction): { from?: PublicKey; to?: PublicKey; lamports: bigint } | null {
+  if (ix.data.length < 12) return null;
+  const index = ix.data.readUInt32LE(0);
+  if (index === SYSTEM_IX_TRANSFER) {
+    return { from: ix.accounts[0], to: ix.accounts[1], lamports: ix.data.readBigUInt64LE(4) };
+  }
+  if (index === SYSTEM_IX_TRANSFER_WITH_SEED) {
+    return { from: ix.accounts[0], to: ix.accounts[2], lamports: ix.data.readBigUInt64LE(4) };
+  }
+  return null;
+}
+
+/** Text of the memo instructions among `instructions`. */
+export function memosOf(instructions: FlatInstruction[]): string[] {
+  return instructions
+    .filter((ix) => ix.programId?.equals(MEMO_PROGRAM_ID) || ix.programId?.equals(LEGACY_MEMO_PROGRAM_ID))
+    .map((ix) => ix.data.toString('utf8'));
+}
+
+/**
+ * Fetch a confirmed payment transaction and flatten its instructions.
+ *
+ * Works for legacy and v0 transactions: account keys are resolved including addresses
+ * loaded from lookup tables, and inner (CPI) instructions are included. Also returns
+ * the transaction's memos so the payment can be matched to an open intent.
+ */
+export async function loadPaymentTransaction(
+  connection: Connection,
+  signature: string
+): Promise<{ ok: true; payment: LoadedPayment } | { ok: false; err: string }> {
+  try {
+    const tx = await connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+    if (!tx || !tx.meta) return { ok: false, err: 'Transaction not found or not confirmed' };
+    if (tx.meta.err) return { ok: false, err: 'Transaction has error' };
+
+    const message = tx.transaction.message;
+    const keys = message.getAccountKeys({ accountKeysFromLookups: tx.meta.loadedAddresses });
+
+    const instructions: FlatInstruction[] = message.compiledInstructions.map((ix) => ({
+      programId: keys.get(ix.programIdIndex),
+      accounts: ix.accountKeyIndexes.map((i) => keys.get(i)),
+      data: Buffer.from(ix.data),
+    }));
+    for (const inner of tx.meta.innerInstructions ?? []) {
+      for (const ix of inner.instructions) {
+        instructions.push({
+          programId: keys.get(ix.programIdIndex),
+          accounts: ix.accounts.map((i) => keys.get(i)),
+          data: Buffer.from(bs58.decode(ix.data)),
+        });
+      }
+    }
+
+    return {
+      ok: true,
+      payment: {
+        slot: tx.slot,
+        blockTime: tx.blockTime ?? undefined,
+        memos: memosOf(instructions),
+        instructions,
+        tokenBalances: { pre: tx.meta.preTokenBalances ?? [], post: tx.meta.postTokenBalances ?? [] },
+      },
+    };
+  } catch (e: any) {
+    return { ok: false, err: e?.message || String(e) };
+  }
+}
+
+/** Only SystemProgram transfers from `payer` to `feeWallet` count. */
+function verifySolPayment(payment: LoadedPayment, payer: PublicKey, feeWallet: PublicKey, lamports: bigint) {
+  let paid = 0n;
+  for (const ix of payment.instructions) {
+    if (!ix.programId?.equals(SystemProgram.programId)) continue;
+    const transfer = decodeSystemTransfer(ix);
+    if (transfer && transfer.from?.equals(payer) && transfer.to?.equals(feeWallet)) {
+      paid += transfer.lamports;
+    }
+  }
+  if (paid === 0n) return { paid, err: 'No transfer from payer to treasury in transaction' };
+  return { paid, err: paid >= lamports ? undefined : 'Insufficient payment to treasury' };
+}
+
+/** Net change of `mint` held by `owner`, from the token balances before and after the transaction. */
+function tokenDelta(payment: LoadedPayment, mint: string, owner: PublicKey, decimals: number) {
+  const sum = (balances: TokenBalance[]) => {
+    let total = 0n;
+    for (const b of balances) {
+      if (b.mint !== mint || b.owner !== owner.toBase58()) continue;
+      if (b.uiTokenAmount.decimals !== decimals) throw new Error('Token decimals mismatch');
+      total += BigInt(b.uiTokenAmount.amount);
+    }
+    return total;
+  };
+  return sum(payment.tokenBalances.post) - sum(payment.tokenBalances.pre);
+}
+
+function verifyTokenPayment(
+  payment: LoadedPayment,
+  payer: PublicKey,
+  feeWallet: PublicKey,
+  quote: Extract<PaymentQuote, { currency: 'TOKEN' }>
+) {
+  const received = tokenDelta(payment, quote.mint, feeWallet, quote.decimals);
+  const sent = -tokenDelta(payment, quote.mint, payer, quote.decimals);
+  const amount = BigInt(quote.amount);
+  if (received <= 0n) return { paid: 0n, err: 'No token transfer to treasury in transaction' };
+  return { paid: received, err: received >= amount && sent >= amount ? undefined : 'Insufficient payment to treasury' };
+}
+
+/** Verify that a loaded transaction paid at least `quote` from `payer` to `feeWallet`. */
+export function verifyPayment(
+  payment: LoadedPayment,
+  payer: PublicKey,
+  feeWallet: PublicKey,
+  quote: PaymentQuote
+): PaymentVerification {
+  const { slot, blockTime } = payment;
+  try {
+    const { paid, err } = quote.currency === 'SOL'
+      ? verifySolPayment(payment, payer, feeWallet, BigInt(quote.amount))
+      : verifyTokenPayment(payment, payer, feeWallet, quote);
+    return { ok: !err, currency: quote.currency, amountToTreasury: paid.toString(), slot, blockTime, err };
+  } catch (e: any) {
+    return { ok: false, currency: quote.currency, amountToTreasury: '0', slot, blockTime, err: e?.message || String(e) };
+  }
+}
+
+/** Resolve the price of one open in SOL or in the fee token (looks up the mint's decimals and program). */
+export async function getPaymentQuote(
+  chain: ChainGateway,
+  currency: 'SOL' | 'TOKEN',
+  prices: { lamports: number; tokenMint: PublicKey; tokenAmount: number }
+): Promise<PaymentQuote> {
+  if (currency === 'SOL') return { currency: 'SOL', amount: String(prices.lamports) };
+  const { decimals, programId } = await chain.getMintInfo(prices.tokenMint);
+  const raw = uiToRawAmount(prices.tokenAmount, decimals);
+  return { currency: 'TOKEN', mint: prices.tokenMint.toBase58(), amount: raw.toString(), decimals, programId: programId.toBase58() };
+}
+
+/**
+ * Instructions that pay `quote` from `owner` to `feeWallet`. Token payments go to the
+ * fee wallet's associated token account, created idempotently by the payer if missing,
+ * through the token program that owns the mint.
+ */
+export function buildPaymentInstructions(owner: PublicKey, feeWallet: PublicKey, quote: PaymentQuote): TransactionInstruction[] {
+  if (quote.currency === 'SOL') {
+    return [SystemProgram.transfer({ fromPubkey: owner, toPubkey: feeWallet, lamports: BigInt(quote.amount) })];
+  }
+  const mint = new PublicKey(quote.mint);
+  const programId = quote.programId ? new PublicKey(quote.programId) : TOKEN_PROGRAM_ID;
+  const ownerAta = getAssociatedTokenAddressSync(mint, owner, false, programId);
+  const treasuryAta = getAssociatedTokenAddressSync(mint, feeWallet, true, programId);
+  return [
+    createAssociatedTokenAccountIdempotentInstruction(owner, treasuryAta, feeWallet, mint, programId),
+    createTransferCheckedInstruction(ownerAta, mint, treasuryAta, owner, BigInt(quote.amount), quote.decimals, [], programId),
+  ];
+}
+
+/**
+ * Build the unsigned fee payment transaction for `owner`.
+ * `legacy` keeps the plain transfer + memo; `v0` returns a VersionedTransaction with
+ * compute-budget instructions so the payment can carry a priority fee.
+ */
+export async function buildPaymentTransaction(
+  chain: ChainGateway,
+  opts: {
+    owner: PublicKey;
+    instructions: TransactionInstruction[];
+    version: TxVersion;
+    computeUnitLimit: number;
+    priorityFeeMicroLamports: number;
+  }
+): Promise<{ txBase64: string; blockhash: string; lastValidBlockHeight: number }> {
+  const { blockhash, lastValidBlockHeight } = await chain.getLatestBlockhash();
+
+  let serialized: Uint8Array;
+  if (opts.version === 'v0') {
+    const message = new TransactionMessage({
+      payerKey: opts.owner,
+      recentBlockhash: blockhash,
+      instructions: [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: opts.computeUnitLimit }),
+        ComputeBudgetProgram.setComputeUnitPrice({ microLamports: opts.priorityFeeMicroLamports }),
+        ...opts.instructions,
+      ],
+    }).compileToV0Message();
+    serialized = new VersionedTransaction(message).serialize();
+  } else {
+    const tx = new Transaction({ recentBlockhash: blockhash, feePayer: opts.owner }).add(...opts.instructions);
+    serialized = tx.serialize({ requireAllSignatures: false, verifySignatures: false });
+  }
+
+  return { txBase64: Buffer.from(serialized).toString('base64'), blockhash, lastValidBlockHeight };
+}
@@ -0,0 +1,390 @@
+/* eslint-disable no-console */
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  Transaction,
+} from '@solana/web3.js';
+import Redis from 'ioredis';
+import bs58 from 'bs58';
+import { v4 as uuidv4 } from 'uuid';
+
+import { PrizeKind } from './rewards.js';
+import { describePrize, getPrizeHandler, PrizePayoutContext } from './prizePayouts.js';
+import { appendPayout } from './ledger.js';
+import { addPendingPayoutLamports, addPrizeBudgetUsage, prizeUsage } from './solvency.js';
+import {
+  checkTreasuryHolds,
+  consumeInventoryAsset,
+  dropInventoryReservation,
+  prizeNftAssets,
+  releaseInventoryAsset,
+} from './inventory.js';
+import { Webhooks } from './webhooks.js';
+import { Feed } from './feed.js';
+import { maskOwner } from './utils.js';
+import { ChainGateway } from './chain.js';
+import { AssetRef } from './assets.js';
+import { acquireLock, releaseLock } from './locks.js';
+
+/**
+ * Durable payout outbox.
+ *
+ * Every won prize is written to Redis before anything is sent, then paid by a worker.
+ * Each attempt signs the transaction and stores its signature *before* sending it, so a
+ * later attempt can ask the chain whether the earlier one landed instead of paying twice.
+ */
+
+export type PayoutStatus = 'queued' | 'sending' | 'confirmed' | 'failed';
+export type PayoutType = 'prize' | 'refund';
+
+export type PayoutRecord = {
+  id: string;
+  type?: PayoutType; // missing = prize (payouts created before refunds were tagged)
+  owner: string;
+  paymentSignature: string;
+  prize: PrizeKind; // resolved (e.g. NFT mints picked) once `resolved` is set
+  resolved: boolean;
+  status: PayoutStatus;
+  attempts: number;
+  txSig?: string;
+  lastValidBlockHeight?: number;
+  lastError?: string;
+  budgetDay?: string; // UTC day whose payout budgets the prize counts against; missing = none
+  createdAt: number;
+  updatedAt: number;
+  nextAttemptAt: number;
+};
+
+export type PayoutContext = PrizePayoutContext & {
+  maxAttempts: number;
+  retryBaseMs: number;
+  webhooks?: Webhooks; // payout.* events, refund.* for refunds
+  feed?: Feed; // confirmed prize payouts on the live feed
+};
+
+const FINISH_EVENTS = {
+  prize: { confirmed: 'payout.confirmed', failed: 'payout.failed' },
+  refund: { confirmed: 'refund.confirmed', failed: 'refund.failed' },
+} as const;
+
+const QUEUE_KEY = 'payouts:queue';
+const LOCK_MS = 120_000;
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+const PENDING_RECHECK_MS = 5_000;
+const COMPUTE_UNITS_PER_INSTRUCTION = 100_000;
+const MAX_COMPUTE_UNITS = 1_400_000;
+
+function payoutKey(id: string) {
+  return `payout:${id}`;
+}
+function payoutLockKey(id: string) {
+  return `payout:${id}:lock`;
+}
+function paymentPayoutKey(paymentSignature: string) {
+  return `payout:payment:${paymentSignature}`;
+}
+
+export async function getPayout(redis: Redis, id: string): Promise<PayoutRecord | null> {
+  const raw = await redis.get(payoutKey(id));
+  return raw ? (JSON.parse(raw) as PayoutRecord) : null;
+}
+
+async function savePayout(redis: Redis, record: PayoutRecord) {
+  record.updatedAt = Date.now();
+  await redis.set(payoutKey(record.id), JSON.stringify(record));
+}
+
+/**
+ * Write a won prize to the outbox and queue it for the worker.
+ * Idempotent per payment signature: a second call returns the existing payout.
+ * `reserved` is set for prizes `applyPayoutLimits` reserved: their SOL is already counted
+ * as pending, and their budget usage on `day` is given back if the payout fails.
+ */
+export async function createPayout(
+  redis: Redis,
+  input: { owner: PublicKey; paymentSignature: string; prize: PrizeKind; type?: PayoutType; reserved?: { day: string } }
+): Promise<PayoutRecord> {
+  const id = uuidv4();
+  const claimed = await redis.set(paymentPayoutKey(input.paymentSignature), id, 'NX');
+  if (!claimed) {
+    const existingId = await redis.get(paymentPayoutKey(input.paymentSignature));
+    const existing = existingId ? await getPayout(redis, existingId) : null;
+    if (existing) return existing;
+    throw new Error('Payout already exists for this payment');
+  }
+
+  const now = Date.now();
+  const record: PayoutRecord = {
+    id,
+    type: input.type ?? 'prize',
+    owner: input.owner.toBase58(),
+    paymentSignature: input.paymentSignature,
+    prize: input.prize,
+    resolved: false,
+    status: 'queued',
+    attempts: 0,
+    budgetDay: input.reserved?.day,
+    createdAt: now,
+    updatedAt: now,
+    nextAttemptAt: now,
+  };
+  await savePayout(redis, record);
+  if (!input.reserved) await addPendingPayoutLamports(redis, prizeUsage(record.prize).SOL);
+  await redis.zadd(QUEUE_KEY, now, id);
+  return record;
+}
+
+async function reschedule(redis: Redis, record: PayoutRecord, delayMs: number) {
+  record.nextAttemptAt = Date.now() + delayMs;
+  await savePayout(redis, record);
+  await redis.zadd(QUEUE_KEY, record.nextAttemptAt, record.id);
+}
+
+async function finish(ctx: PayoutContext, record: PayoutRecord, status: 'confirmed' | 'failed') {
+  const { redis } = ctx;
+  const type = record.type ?? 'prize';
+  record.status = status;
+  await savePayout(redis, record);
+  await redis.zrem(QUEUE_KEY, record.id);
+  await addPendingPayoutLamports(redis, -prizeUsage(record.prize).SOL);
+  // Sent NFTs leave the inventory; those of a failed payout can be won again, and its
+  // share of the daily budgets goes back
+  if (status === 'confirmed') {
+    for (const asset of prizeNftAssets(record.prize)) await consumeInventoryAsset(redis, asset);
+  } else {
+    await returnToInventory(ctx, prizeNftAssets(record.prize));
+    if (record.budgetDay) await addPrizeBudgetUsage(redis, record.budgetDay, record.prize, -1);
+  }
+  await appendPayout(redis, {
+    payoutId: record.id,
+    type,
+    owner: record.owner,
+    paymentSignature: record.paymentSignature,
+    status,
+    txSig: status === 'confirmed' ? record.txSig ?? null : null,
+    prize: describePrize(record.prize),
+    at: Date.now(),
+  });
+  await ctx.webhooks?.emit(FINISH_EVENTS[type][status], {
+    payoutId: record.id,
+    owner: record.owner,
+    paymentSignature: record.paymentSignature,
+    prize: describePrize(record.prize),
+    txSig: status === 'confirmed' ? record.txSig ?? null : null,
+    attempts: record.attempts,
+    lastError: record.lastError ?? null,
+  });
+  // Refunds give back a payment; they aren't wins
+  if (status === 'confirmed' && type === 'prize') {
+    await ctx.feed?.publish('payout', {
+      payoutId: record.id,
+      owner: maskOwner(record.owner),
+      prize: describePrize(record.prize),
+      txSig: record.txSig ?? null,
+    });
+  }
+}
+
+/**
+ * Put the NFTs of a failed payout back in the inventory, only if the treasury still holds
+ * them: the others are forgotten. If holdings can't be read, the reservations are just
+ * dropped and the next refresh decides.
+ */
+async function returnToInventory(ctx: PayoutContext, assets: AssetRef[]) {
+  if (assets.length === 0) return;
+  const { redis } = ctx;
+  let holds: { held: AssetRef[]; missing: AssetRef[] };
+  try {
+    holds = await checkTreasuryHolds(ctx.chain.assets, ctx.treasury.publicKey, assets);
+  } catch (e) {
+    console.error('Reading treasury NFTs failed; leaving them to the inventory refresh:', e);
+    for (const asset of assets) await dropInventoryReservation(redis, asset);
+    return;
+  }
+  for (const asset of holds.held) await releaseInventoryAsset(redis, asset);
+  for (const asset of holds.missing) await consumeInventoryAsset(redis, asset);
+}
+
+/**
+ * Check whether the last submitted attempt landed.
+ * Returns 'landed', 'pending' (still within its blockhash validity) or 'dropped'.
+ */
+async function checkPreviousAttempt(chain: ChainGateway, record: PayoutRecord) {
+  if (!record.txSig) return 'dropped';
+  const status = await chain.getSignatureStatus(record.txSig);
+  if (status) {
+    if (status.err) return 'dropped';
+    if (status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized') return 'landed';
+    return 'pending';
+  }
+  const blockHeight = await chain.getBlockHeight();
+  return record.lastValidBlockHeight !== undefined && blockHeight <= record.lastValidBlockHeight ? 'pending' : 'dropped';
+}
+
+async function buildPayoutTransaction(ctx: PayoutContext, record: PayoutRecord) {
+  const recipient = new PublicKey(record.owner);
+  const handler = getPrizeHandler(record.prize);
+
+  // An earlier attempt didn't land (this runs after checkPreviousAttempt). If that was
+  // because the treasury no longer holds a pinned NFT, forget it and pick another one.
+  const pinned = record.resolved && record.attempts > 1 ? prizeNftAssets(record.prize) : [];
+  if (pinned.length > 0) {
+    const { missing } = await checkTreasuryHolds(ctx.chain.assets, ctx.treasury.publicKey, pinned);
+    if (missing.length > 0) {
+      console.warn(`Payout ${record.id}: treasury no longer holds ${missing.map((a) => a.id).join(', ')}; picking again`);
+      for (const asset of missing) await consumeInventoryAsset(ctx.redis, asset);
+      record.prize = unresolvedPrize(record.prize, new Set(missing.map((a) => a.id)));
+      record.resolved = false;
+    }
+  }
+
+  // Pin NFT mints etc. once, so every retry sends exactly the same prize
+  if (!record.resolved) {
+    record.prize = await handler.resolve(ctx, record.prize, record.id);
+    record.resolved = true;
+    await savePayout(ctx.redis, record);
+  }
+
+  const instructions = await handler.instructions(ctx, record.prize, recipient);
+  if (instructions.length === 0) throw new Error(`Nothing to pay out for prize kind ${record.prize.kind}`);
+
+  const { blockhash, lastValidBlockHeight } = await ctx.chain.getLatestBlockhash();
+  const units = Math.min(MAX_COMPUTE_UNITS, Math.max(300_000, instructions.length * COMPUTE_UNITS_PER_INSTRUCTION));
+  const tx = new Transaction({ recentBlockhash: blockhash, feePayer: ctx.treasury.publicKey }).add(
+    ComputeBudgetProgram.setComputeUnitLimit({ units }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 10_000 }),
+    ...instructions
+  );
+  tx.sign(ctx.treasury);
+  return { tx, blockhash, lastValidBlockHeight };
+}
+
+/**
+ * Run one attempt for a payout. Safe to call concurrently and from several instances:
+ * a per-payout lock makes sure only one attempt is in flight.
+ */
+export async function processPayout(ctx: PayoutContext, id: string): Promise<PayoutRecord | null> {
+  const { redis, chain } = ctx;
+  const lock = await acquireLock(redis, payoutLockKey(id), LOCK_MS);
+  if (!lock) return null;
+
+  let record = await getPayout(redis, id);
+  try {
+    if (!record || record.status === 'confirmed' || record.status === 'failed') {
+      await redis.zrem(QUEUE_KEY, id);
+      return record;
+    }
+
+    if (record.txSig) {
+      const previous = await checkPreviousAttempt(chain, record);
+      if (previous === 'landed') {
+        await finish(ctx, record, 'confirmed');
+        return record;
+      }
+      if (previous === 'pending') {
+        await reschedule(redis, record, PENDING_RECHECK_MS);
+        return record;
+      }
+    }
+
+    if (record.attempts >= ctx.maxAttempts) {
+      await finish(ctx, record, 'failed');
+      return record;
+    }
+
+    record.attempts += 1;
+    const { tx, blockhash, lastValidBlockHeight } = await buildPayoutTransaction(ctx, record);
+    record.txSig = bs58.encode(tx.signature!);
+    record.lastValidBlockHeight = lastValidBlockHeight;
+    record.status = 'sending';
+    record.lastError = undefined;
+    await savePayout(redis, record);
+
+    const result = await chain.sendAndConfirm(tx, { blockhash, lastValidBlockHeight });
+    if (result.err) throw new Error(`Payout transaction failed: ${JSON.stringify(result.err)}`);
+
+    await finish(ctx, record, 'confirmed');
+    return record;
+  } catch (e: any) {
+    console.error(`Payout ${id} attempt failed:`, e);
+    if (!record) return null;
+    record.lastError = e?.message || String(e);
+    if (record.attempts >= ctx.maxAttempts && !record.txSig) {
+      await finish(ctx, record, 'failed');
+    } else {
+      const backoff = Math.min(ctx.retryBaseMs * 2 ** Math.max(0, record.attempts - 1), MAX_BACKOFF_MS);
+      await reschedule(redis, record, backoff);
+    }
+    return record;
+  } finally {
+    await releaseLock(redis, payoutLockKey(id), lock);
+  }
+}
+
+/** The prize as rolled, before `resolve` picked NFT mints (only `mints`, if given). */
+function unresolvedPrize(prize: PrizeKind, mints?: Set<string>): PrizeKind {
+  if (prize.kind === 'NFT') {
+    return !mints || (prize.mint && mints.has(prize.mint)) ? { kind: 'NFT', label: prize.label } : prize;
+  }
+  if (prize.kind === 'BUNDLE') {
+    return { ...prize, items: prize.items.map((item) => unresolvedPrize(item, mints) as typeof item) };
+  }
+  return prize;
+}
+
+/**
+ * Queue a payout for an attempt right away (admin retry). A failed payout starts over with
+ * a fresh attempt count; the NFTs it had picked went back to the inventory when it failed,
+ * so it picks again. Confirmed payouts, and payouts with an attempt in flight, are returned
+ * unchanged; null if not found.
+ */
+export async function retryPayout(ctx: PayoutContext, id: string): Promise<PayoutRecord | null> {
+  const { redis } = ctx;
+  const lock = await acquireLock(redis, payoutLockKey(id), LOCK_MS);
+  if (!lock) return getPayout(redis, id);
+
+  try {
+    const record = await getPayout(redis, id);
+    if (!record || record.status === 'confirmed') return record;
+    if (record.status === 'failed') {
+      record.prize = unresolvedPrize(record.prize);
+      record.resolved = false;
+      record.status = 'queued';
+      record.attempts = 0;
+      record.txSig = undefined;
+      record.lastValidBlockHeight = undefined;
+      record.lastError = undefined;
+      await addPendingPayoutLamports(redis, prizeUsage(record.prize).SOL);
+      if (record.budgetDay) await addPrizeBudgetUsage(redis, record.budgetDay, record.prize, 1);
+    }
+    await reschedule(redis, record, 0);
+    return record;
+  } finally {
+    await releaseLock(redis, payoutLockKey(id), lock);
+  }
+}
+
+/** Process every payout whose next attempt is due. */
+export async function processDuePayouts(ctx: PayoutContext, batchSize = 10) {
+  const ids = await ctx.redis.zrangebyscore(QUEUE_KEY, 0, Date.now(), 'LIMIT', 0, batchSize);
+  for (const id of ids) {
+    await processPayout(ctx, id);
+  }
+}
+
+/** Poll the outbox on an interval. Returns a function that stops the worker. */
+export function startPayoutWorker(ctx: PayoutContext, intervalMs: number): () => void {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await processDuePayouts(ctx);
+    } catch (e) {
+      console.error('Payout worker error:', e);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  return () => clearInterval(timer);
+}
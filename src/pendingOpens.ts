@@ -0,0 +1,82 @@
+import Redis from 'ioredis';
+
+import { Credit } from './credits.js';
+import { RollRecord } from './fairness.js';
+import { PayoutStatus } from './payouts.js';
+import { ProgressionEffect } from './progression.js';
+import { PrizeKind } from './rewards.js';
+
+/**
+ * Opens that have rolled but aren't fully recorded yet.
+ *
+ * Before `/open` rolls, it writes down everything needed to finish the open: the payment,
+ * the prize table versions and the progression effect. Each step after that (roll, payout
+ * limits, progress, payout, ledger, events) is marked done on the pending open as it
+ * completes, so an open whose request dies half way is carried on from the last completed
+ * step by the recovery sweep instead of losing the prize. The record goes once every step is done.
+ */
+
+export type OpenStep = 'roll' | 'limits' | 'progress' | 'payout' | 'ledger' | 'events';
+
+export type PendingOpen = {
+  signature: string; // the payment signature (= credit id when paid by a credit)
+  owner: string;
+  box: string;
+  intentId: string;
+  clientSeed: string;
+  serverSeedId?: string; // missing = roll with the active seed (credit opens)
+  payment: Credit['payment'];
+  slot?: number;
+  blockTime?: number;
+  creditId?: string;
+  chargedAsset: string | null;
+  prizeTableVersion: string; // the box's table at the time, for the downgrade prize
+  rollTableVersion: string; // the table rolled against (after progression)
+  progression: ProgressionEffect;
+  done: OpenStep[];
+  // Set by the steps
+  roll?: RollRecord;
+  prize?: PrizeKind;
+  downgradedFrom?: PrizeKind;
+  budgetDay?: string; // set when the limits step reserved the prize
+  payout?: { id: string; status: PayoutStatus } | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+const PENDING_KEY = 'opens:pending';
+
+function pendingOpenKey(signature: string) {
+  return `open:pending:${signature}`;
+}
+
+/** Lock held by whoever is settling the open (the request, or the recovery sweep). */
+export function pendingOpenLockKey(signature: string) {
+  return `open:pending:${signature}:lock`;
+}
+
+export async function savePendingOpen(redis: Redis, open: PendingOpen) {
+  open.updatedAt = Date.now();
+  await redis.multi()
+    .set(pendingOpenKey(open.signature), JSON.stringify(open))
+    .zadd(PENDING_KEY, open.createdAt, open.signature)
+    .exec();
+}
+
+export async function getPendingOpen(redis: Redis, signature: string): Promise<PendingOpen | null> {
+  const raw = await redis.get(pendingOpenKey(signature));
+  return raw ? (JSON.parse(raw) as PendingOpen) : null;
+}
+
+export async function hasPendingOpen(redis: Redis, signature: string): Promise<boolean> {
+  return (await redis.exists(pendingOpenKey(signature))) === 1;
+}
+
+export async function deletePendingOpen(redis: Redis, signature: string) {
+  await redis.multi().del(pendingOpenKey(signature)).zrem(PENDING_KEY, signature).exec();
+}
+
+/** Signatures of pending opens created more than `olderThanMs` ago, oldest first. */
+export async function listStalePendingOpens(redis: Redis, olderThanMs: number, limit = 50): Promise<string[]> {
+  return redis.zrangebyscore(PENDING_KEY, 0, Date.now() - olderThanMs, 'LIMIT', 0, limit);
+}
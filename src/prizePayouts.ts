@@ -0,0 +1,165 @@
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import Redis from 'ioredis';
+
+import { PrizeKind } from './rewards.js';
+import { AssetRef, AssetStandard } from './assets.js';
+import { ChainGateway } from './chain.js';
+import { prizeNftAssets, releaseInventoryAsset, reserveInventoryAsset } from './inventory.js';
+import { uiToRawAmount } from './utils.js';
+
+/**
+ * One payout implementation per prize kind.
+ *
+ * Every handler describes its prize the same way (for responses and logs) and turns a
+ * resolved prize into instructions signed by the treasury. `resolve` pins anything that
+ * must stay the same across retries, such as which NFT mint is sent.
+ */
+
+export type PrizePayoutContext = {
+  chain: ChainGateway;
+  redis: Redis;
+  treasury: Keypair;
+};
+
+/** Uniform description of a prize, whatever its kind. */
+export type PrizeDescription = {
+  kind: PrizeKind['kind'];
+  label: string;
+  lamports?: number;
+  mint?: string;
+  standard?: AssetStandard;
+  amount?: number;
+  rawAmount?: string;
+  items?: PrizeDescription[];
+};
+
+type PrizeOf<K extends PrizeKind['kind']> = Extract<PrizeKind, { kind: K }>;
+
+export interface PrizePayoutHandler<P extends PrizeKind> {
+  /** Whether this kind sends anything to the winner. */
+  payable: boolean;
+  describe(prize: P): PrizeDescription;
+  resolve(ctx: PrizePayoutContext, prize: P, payoutId: string): Promise<P>;
+  instructions(ctx: PrizePayoutContext, prize: P, recipient: PublicKey): Promise<TransactionInstruction[]>;
+}
+
+const nothing: PrizePayoutHandler<PrizeOf<'NOTHING'>> = {
+  payable: false,
+  describe: () => ({ kind: 'NOTHING', label: 'Nothing' }),
+  resolve: async (_ctx, prize) => prize,
+  instructions: async () => [],
+};
+
+const sol: PrizePayoutHandler<PrizeOf<'SOL'>> = {
+  payable: true,
+  describe: (prize) => ({ kind: 'SOL', label: prize.label, lamports: prize.lamports }),
+  resolve: async (_ctx, prize) => prize,
+  instructions: async (ctx, prize, recipient) => [
+    SystemProgram.transfer({ fromPubkey: ctx.treasury.publicKey, toPubkey: recipient, lamports: prize.lamports }),
+  ],
+};
+
+const nft: PrizePayoutHandler<PrizeOf<'NFT'>> = {
+  payable: true,
+  describe: (prize) => ({ kind: 'NFT', label: prize.label, mint: prize.mint, standard: prize.standard }),
+  // Reserve an asset from the inventory once and keep it, so retries always send the same NFT
+  resolve: async (ctx, prize, payoutId) => {
+    if (prize.mint) return prize;
+    const asset = await reserveInventoryAsset(ctx.redis, payoutId);
+    if (!asset) throw new Error('No NFT available in the prize inventory');
+    return { ...prize, mint: asset.id, standard: asset.standard };
+  },
+  instructions: async (ctx, prize, recipient) => {
+    if (!prize.mint) throw new Error('NFT prize has no mint');
+    // Payouts resolved before asset standards were recorded are token-metadata NFTs
+    const asset = { standard: prize.standard ?? 'nft', id: prize.mint };
+    return ctx.chain.assets.transferInstructions(asset, ctx.treasury, recipient);
+  },
+};
+
+const token: PrizePayoutHandler<PrizeOf<'TOKEN'>> = {
+  payable: true,
+  describe: (prize) => ({ kind: 'TOKEN', label: prize.label, mint: prize.mint, amount: prize.amount, rawAmount: prize.rawAmount }),
+  resolve: async (_ctx, prize) => prize,
+  // Transfer from the treasury's ATA to the winner's ATA (created by the treasury if missing),
+  // under the token program that owns the mint
+  instructions: async (ctx, prize, recipient) => {
+    const mint = new PublicKey(prize.mint);
+    const { decimals, programId } = await ctx.chain.getMintInfo(mint);
+    const source = getAssociatedTokenAddressSync(mint, ctx.treasury.publicKey, false, programId);
+    const destination = getAssociatedTokenAddressSync(mint, recipient, true, programId);
+    return [
+      createAssociatedTokenAccountIdempotentInstruction(ctx.treasury.publicKey, destination, recipient, mint, programId),
+      createTransferCheckedInstruction(
+        source,
+        mint,
+        destination,
+        ctx.treasury.publicKey,
+        prize.rawAmount !== undefined ? BigInt(prize.rawAmount) : uiToRawAmount(prize.amount, decimals),
+        decimals,
+        [],
+        programId
+      ),
+    ];
+  },
+};
+
+const bundle: PrizePayoutHandler<PrizeOf<'BUNDLE'>> = {
+  payable: true,
+  describe: (prize) => ({ kind: 'BUNDLE', label: prize.label, items: prize.items.map(describePrize) }),
+  resolve: async (ctx, prize, payoutId) => {
+    const items: typeof prize.items = [];
+    const reserved: AssetRef[] = [];
+    try {
+      for (const item of prize.items) {
+        const resolved = await getPrizeHandler(item).resolve(ctx, item, payoutId);
+        const pinned = new Set(prizeNftAssets(item).map((asset) => asset.id));
+        reserved.push(...prizeNftAssets(resolved).filter((asset) => !pinned.has(asset.id)));
+        items.push(resolved);
+      }
+    } catch (e) {
+      // Don't hold on to NFTs reserved by this call; the next attempt starts over. Items
+      // pinned by an earlier attempt stay reserved for this payout.
+      await Promise.all(reserved.map((asset) => releaseInventoryAsset(ctx.redis, asset)));
+      throw e;
+    }
+    return { ...prize, items };
+  },
+  instructions: async (ctx, prize, recipient) => {
+    const all: TransactionInstruction[] = [];
+    for (const item of prize.items) {
+      all.push(...await getPrizeHandler(item).instructions(ctx, item, recipient));
+    }
+    return all;
+  },
+};
+
+const handlers: { [K in PrizeKind['kind']]: PrizePayoutHandler<PrizeOf<K>> } = {
+  NOTHING: nothing,
+  SOL: sol,
+  NFT: nft,
+  TOKEN: token,
+  BUNDLE: bundle,
+};
+
+export function getPrizeHandler<P extends PrizeKind>(prize: P): PrizePayoutHandler<P> {
+  return handlers[prize.kind] as unknown as PrizePayoutHandler<P>;
+}
+
+export function describePrize(prize: PrizeKind): PrizeDescription {
+  return getPrizeHandler(prize).describe(prize);
+}
+
+export function isPayablePrize(prize: PrizeKind): boolean {
+  return getPrizeHandler(prize).payable;
+}
@@ -0,0 +1,194 @@
+/* eslint-disable no-console */
+import { promises as fs, watchFile } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import YAML from 'yaml';
+import Redis from 'ioredis';
+import { PublicKey } from '@solana/web3.js';
+
+import { normalizeWeights, PrizeKind, Weighted } from './rewards.js';
+
+/**
+ * Prize tables loaded from JSON or YAML files, validated like the env schema.
+ * There is one active table per file (each box can have its own), swapped at runtime
+ * by a file watch or an admin reload; every version is also stored in Redis so past
+ * rolls can be verified against the table that was active when they were made.
+ */
+
+const MintSchema = z.string().refine((s) => {
+  try {
+    new PublicKey(s);
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: 'Invalid mint address' });
+
+const SinglePrizeSchemas = [
+  z.object({ kind: z.literal('NFT'), label: z.string().min(1) }).strict(),
+  z.object({ kind: z.literal('SOL'), lamports: z.number().int().positive(), label: z.string().min(1) }).strict(),
+  z.object({ kind: z.literal('TOKEN'), mint: MintSchema, amount: z.number().positive(), label: z.string().min(1) }).strict(),
+] as const;
+
+const PrizeKindSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('NOTHING') }).strict(),
+  ...SinglePrizeSchemas,
+  z.object({
+    kind: z.literal('BUNDLE'),
+    label: z.string().min(1),
+    items: z.array(z.discriminatedUnion('kind', [...SinglePrizeSchemas])).min(1),
+  }).strict(),
+]);
+
+export const PrizeTableSchema = z.object({
+  prizes: z.array(z.object({
+    weight: z.number().nonnegative(),
+    item: PrizeKindSchema,
+  }).strict()).min(1),
+}).strict().refine(
+  (t) => t.prizes.some((p) => p.weight > 0),
+  { message: 'At least one prize must have a positive weight' }
+);
+
+export type PrizeTable = {
+  version: string;
+  source: string;
+  loadedAt: number;
+  prizes: Weighted<PrizeKind>[];
+};
+
+// Active table per source file
+const active = new Map<string, PrizeTable>();
+
+function tableKey(version: string) {
+  return `prizes:table:${version}`;
+}
+
+/** Stable hash of the table contents, used as its version. */
+export function prizeTableVersion(prizes: Weighted<PrizeKind>[]): string {
+  return createHash('sha256').update(JSON.stringify(prizes)).digest('hex').slice(0, 16);
+}
+
+/** Validate a parsed prize table. Throws on invalid input; returns warnings for suspicious but valid tables. */
+export function parsePrizeTable(raw: unknown, source: string): { table: PrizeTable; warnings: string[] } {
+  const parsed = PrizeTableSchema.parse(raw);
+  const prizes = parsed.prizes as Weighted<PrizeKind>[];
+  const warnings: string[] = [];
+  const total = prizes.reduce((s, p) => s + p.weight, 0);
+  if (Math.abs(total - 100) > 1e-9) {
+    warnings.push(`Prize weights sum to ${total}, not 100; they will be normalized`);
+  }
+  return {
+    table: { version: prizeTableVersion(prizes), source, loadedAt: Date.now(), prizes },
+    warnings,
+  };
+}
+
+export async function loadPrizeTableFile(file: string): Promise<{ table: PrizeTable; warnings: string[] }> {
+  const text = await fs.readFile(file, 'utf8');
+  const ext = path.extname(file).toLowerCase();
+  const raw = ext === '.yaml' || ext === '.yml' ? YAML.parse(text) : JSON.parse(text);
+  return parsePrizeTable(raw, file);
+}
+
+export function getActivePrizeTable(file: string): PrizeTable {
+  const table = active.get(file);
+  if (!table) throw new Error(`Prize table ${file} not loaded`);
+  return table;
+}
+
+/** Load `file`, store its version in Redis and make it the active table for that file. */
+export async function reloadPrizeTable(redis: Redis, file: string): Promise<{ table: PrizeTable; warnings: string[] }> {
+  const result = await loadPrizeTableFile(file);
+  for (const w of result.warnings) console.warn(`[prizes] ${w}`);
+  await redis.set(tableKey(result.table.version), JSON.stringify(result.table.prizes));
+  active.set(file, result.table);
+  console.log(`[prizes] Active table ${result.table.version} from ${file}`);
+  return result;
+}
+
+/** Prizes of a past table version, for verifying old rolls. */
+export async function getPrizeTableVersion(redis: Redis, version: string): Promise<Weighted<PrizeKind>[] | null> {
+  for (const table of active.values()) {
+    if (table.version === version) return table.prizes;
+  }
+  const raw = await redis.get(tableKey(version));
+  return raw ? (JSON.parse(raw) as Weighted<PrizeKind>[]) : null;
+}
+
+/** A derived table would have no weight left, e.g. every prize needs an NFT and NFT prizes are off. */
+export class NoPrizesLeftError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NoPrizesLeftError';
+  }
+}
+
+function includesKind(prize: PrizeKind, kinds: PrizeKind['kind'][]): boolean {
+  return kinds.includes(prize.kind) || (prize.kind === 'BUNDLE' && prize.items.some((i) => includesKind(i, kinds)));
+}
+
+/**
+ * A table derived from `table` with new weights. It gets its own version, stored like any
+ * other, so rolls made against it can still be verified. Throws NoPrizesLeftError if no
+ * weight is left.
+ */
+async function deriveTable(
+  redis: Redis,
+  table: PrizeTable,
+  weight: (p: Weighted<PrizeKind>) => number,
+  what: string
+): Promise<PrizeTable> {
+  const prizes = table.prizes.map((p) => ({ ...p, weight: weight(p) }));
+  if (!prizes.some((p) => p.weight > 0)) throw new NoPrizesLeftError(`No prizes left with ${what}`);
+  const version = prizeTableVersion(prizes);
+  if (version === table.version) return table;
+  await redis.set(tableKey(version), JSON.stringify(prizes));
+  return { ...table, version, prizes };
+}
+
+/**
+ * The table with every prize that includes one of `kinds` (bundles too) weighted 0,
+ * e.g. NFT prizes while inventory is low.
+ */
+export function withPrizeKindsDisabled(redis: Redis, table: PrizeTable, kinds: PrizeKind['kind'][]) {
+  return deriveTable(redis, table, (p) => (includesKind(p.item, kinds) ? 0 : p.weight), `${kinds.join(', ')} disabled`);
+}
+
+/** The table reduced to the prizes that include one of `kinds` (bundles too), e.g. a guaranteed NFT. */
+export function withOnlyPrizeKinds(redis: Redis, table: PrizeTable, kinds: PrizeKind['kind'][]) {
+  return deriveTable(redis, table, (p) => (includesKind(p.item, kinds) ? p.weight : 0), `only ${kinds.join(', ')}`);
+}
+
+/** The table with every prize other than NOTHING weighted `multiplier` times, which lowers the odds of nothing. */
+export function withPrizesBoosted(redis: Redis, table: PrizeTable, multiplier: number) {
+  return deriveTable(redis, table, (p) => (p.item.kind === 'NOTHING' ? p.weight : p.weight * multiplier), `a ${multiplier}x boost`);
+}
+
+/**
+ * Reload the table whenever the file changes. An invalid file is logged and
+ * the previous table stays active.
+ */
+export function watchPrizeTable(redis: Redis, file: string, intervalMs = 2000) {
+  watchFile(file, { interval: intervalMs }, (curr, prev) => {
+    if (curr.mtimeMs === prev.mtimeMs) return;
+    reloadPrizeTable(redis, file).catch((e) => {
+      console.error(`[prizes] Reload of ${file} failed, keeping table ${active.get(file)?.version}:`, e?.message || e);
+    });
+  });
+}
+
+/** Public view of a table with the normalized probability of each prize. */
+export function describePrizeTable(table: PrizeTable) {
+  return {
+    version: table.version,
+    loadedAt: table.loadedAt,
+    totalWeight: table.prizes.reduce((s, p) => s + p.weight, 0),
+    prizes: normalizeWeights(table.prizes).map(({ p, item }, i) => ({
+      item,
+      weight: table.prizes[i].weight,
+      probability: p,
+    })),
+  };
+}
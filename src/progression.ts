@@ -0,0 +1,137 @@
+import { PublicKey } from '@solana/web3.js';
+import Redis from 'ioredis';
+
+import { PrizeKind } from './rewards.js';
+import { PrizeTable, withOnlyPrizeKinds, withPrizesBoosted } from './prizeTable.js';
+import { utcDay } from './utils.js';
+
+/**
+ * Per-wallet progression: a pity timer and a daily streak.
+ *
+ * After `pityAfterNothing` NOTHING results in a row, the next roll only draws from prizes
+ * including one of `pityKinds`. Otherwise, opening on consecutive UTC days multiplies the
+ * weight of every real prize by `1 + streakBonusPerDay` per day after the first (up to
+ * `streakMaxDays`). Both rules produce a derived prize table with its own version, so the
+ * roll stays verifiable, and the rule that applied is recorded in the ledger.
+ */
+
+export type ProgressionConfig = {
+  pityAfterNothing: number; // 0 = no pity timer
+  pityKinds: PrizeKind['kind'][];
+  streakBonusPerDay: number; // 0 = no streak bonus
+  streakMaxDays: number;
+};
+
+export type Progress = {
+  nothingInARow: number;
+  streak: number; // consecutive UTC days with an open, ending on lastDay
+  lastDay: string | null;
+};
+
+export type ProgressionEffect = {
+  rule: 'pity' | 'streak' | null;
+  streak: number;
+  multiplier: number;
+  nothingInARow: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function progressKey(owner: string) {
+  return `progress:${owner}`;
+}
+
+// KEYS[1] = progress hash; ARGV = today, yesterday, nothing (0/1). Records one roll.
+const RECORD_ROLL_LUA = `
+local last = redis.call('HGET', KEYS[1], 'lastDay')
+local streak = tonumber(redis.call('HGET', KEYS[1], 'streak') or '0')
+if last ~= ARGV[1] then
+  if last == ARGV[2] then streak = streak + 1 else streak = 1 end
+end
+local nothing = 0
+if ARGV[3] == '1' then nothing = tonumber(redis.call('HGET', KEYS[1], 'nothingInARow') or '0') + 1 end
+redis.call('HSET', KEYS[1], 'lastDay', ARGV[1], 'streak', streak, 'nothingInARow', nothing)
+return streak
+`;
+
+export async function getProgress(redis: Redis, owner: PublicKey): Promise<Progress> {
+  const raw = await redis.hgetall(progressKey(owner.toBase58()));
+  return {
+    nothingInARow: Number(raw.nothingInARow ?? 0),
+    streak: Number(raw.streak ?? 0),
+    lastDay: raw.lastDay ?? null,
+  };
+}
+
+/** The streak an open made at `now` counts for (including that open). */
+function streakForOpen(progress: Progress, now: number): number {
+  if (progress.lastDay === utcDay(now)) return progress.streak;
+  if (progress.lastDay === utcDay(now - DAY_MS)) return progress.streak + 1;
+  return 1;
+}
+
+function streakMultiplier(streak: number, cfg: ProgressionConfig): number {
+  if (cfg.streakBonusPerDay <= 0) return 1;
+  return 1 + cfg.streakBonusPerDay * (Math.min(streak, cfg.streakMaxDays) - 1);
+}
+
+function pityDue(progress: Progress, cfg: ProgressionConfig): boolean {
+  return cfg.pityAfterNothing > 0 && progress.nothingInARow >= cfg.pityAfterNothing;
+}
+
+/** Current streak and pity progress, as shown on /eligibility. */
+export function describeProgress(progress: Progress, cfg: ProgressionConfig, now = Date.now()) {
+  const streakAlive = progress.lastDay === utcDay(now) || progress.lastDay === utcDay(now - DAY_MS);
+  const nextStreak = streakForOpen(progress, now);
+  return {
+    streak: streakAlive ? progress.streak : 0,
+    openedToday: progress.lastDay === utcDay(now),
+    nextOpenMultiplier: streakMultiplier(nextStreak, cfg),
+    pity: cfg.pityAfterNothing > 0
+      ? {
+        nothingInARow: progress.nothingInARow,
+        after: cfg.pityAfterNothing,
+        remaining: Math.max(0, cfg.pityAfterNothing - progress.nothingInARow),
+        due: pityDue(progress, cfg),
+        kinds: cfg.pityKinds,
+      }
+      : null,
+  };
+}
+
+/**
+ * The prize table for the owner's next roll. Pity wins over the streak bonus; if the pity
+ * prizes are all unavailable (e.g. NFTs switched off for low stock) the table is unchanged.
+ */
+export async function applyProgression(
+  redis: Redis,
+  table: PrizeTable,
+  progress: Progress,
+  cfg: ProgressionConfig,
+  now = Date.now()
+): Promise<{ table: PrizeTable; effect: ProgressionEffect }> {
+  const streak = streakForOpen(progress, now);
+  const effect: ProgressionEffect = { rule: null, streak, multiplier: 1, nothingInARow: progress.nothingInARow };
+
+  if (pityDue(progress, cfg)) {
+    const pity = await withOnlyPrizeKinds(redis, table, cfg.pityKinds).catch(() => null);
+    if (pity) return { table: pity, effect: { ...effect, rule: 'pity' } };
+  }
+  const multiplier = streakMultiplier(streak, cfg);
+  if (multiplier > 1) {
+    return { table: await withPrizesBoosted(redis, table, multiplier), effect: { ...effect, rule: 'streak', multiplier } };
+  }
+  return { table, effect };
+}
+
+/** Record a roll: extends the daily streak and counts (or resets) NOTHING results in a row. */
+export async function recordProgress(redis: Redis, owner: PublicKey, prize: PrizeKind, now = Date.now()) {
+  await redis.eval(
+    RECORD_ROLL_LUA,
+    1,
+    progressKey(owner.toBase58()),
+    utcDay(now),
+    utcDay(now - DAY_MS),
+    prize.kind === 'NOTHING' ? '1' : '0'
+  );
+}
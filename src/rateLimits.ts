@@ -0,0 +1,164 @@
+/* eslint-disable no-console */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { NextFunction, Response } from 'express';
+import { z } from 'zod';
+import YAML from 'yaml';
+import Redis from 'ioredis';
+
+import { fail, MiddlewareRequest } from './http.js';
+
+/**
+ * Sliding-window rate limits in Redis, per client IP and per owner wallet.
+ *
+ * Each policy has an optional budget per IP and per owner: at most `limit` requests in
+ * any `windowSeconds`. Requests are members of a sorted set scored by time; the check and
+ * the insert happen in one Lua script, so parallel requests can't all slip through, and a
+ * refused request doesn't count. Responses carry `RateLimit-Limit`, `RateLimit-Remaining`,
+ * `RateLimit-Reset` (seconds) and `RateLimit-Policy` for the tightest budget that applies,
+ * plus `Retry-After` on 429. If Redis fails the request is let through.
+ */
+
+export const RATE_LIMIT_POLICIES = ['default', 'rpc', 'auth', 'admin'] as const;
+
+export type RateLimitPolicy = (typeof RATE_LIMIT_POLICIES)[number];
+
+const BudgetSchema = z.object({
+  limit: z.number().int().positive(),
+  windowSeconds: z.number().positive(),
+}).strict();
+
+const PolicySchema = z.object({
+  ip: BudgetSchema.optional(),
+  owner: BudgetSchema.optional(),
+}).strict();
+
+// A policy left out of the file has no limits. Sign-in has no session yet, so the `owner`
+// it names is unproven: an owner budget there would let anyone lock a wallet out of sign-in.
+export const RateLimitConfigSchema = z.object({
+  policies: z.object(Object.fromEntries(RATE_LIMIT_POLICIES.map((p) => [p, PolicySchema.optional()])) as {
+    [K in RateLimitPolicy]: z.ZodOptional<typeof PolicySchema>
+  }).strict(),
+}).strict().refine((config) => !config.policies.auth?.owner, {
+  message: 'auth is limited per IP only',
+  path: ['policies', 'auth', 'owner'],
+});
+
+export type RateLimitConfig = z.infer<typeof RateLimitConfigSchema>;
+
+type Budget = z.infer<typeof BudgetSchema>;
+
+/** Limits used when there is no config file: `default` applies to every route, the others on top. */
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  policies: {
+    default: { ip: { limit: 300, windowSeconds: 60 } },
+    // Routes that scan the wallet over RPC or send transactions
+    rpc: { ip: { limit: 30, windowSeconds: 60 }, owner: { limit: 10, windowSeconds: 60 } },
+    auth: { ip: { limit: 20, windowSeconds: 60 } },
+    admin: { ip: { limit: 60, windowSeconds: 60 } },
+  },
+};
+
+// KEYS[1] = window key; ARGV = now, cutoff, limit, member, windowMs
+// Returns { allowed (0/1), count (after adding), score of the oldest request or false }
+const HIT_LUA = `
+redis.call('ZREMRANGEBYSCORE', KEYS[1], 0, ARGV[2])
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < tonumber(ARGV[3]) then
+  redis.call('ZADD', KEYS[1], ARGV[1], ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+redis.call('PEXPIRE', KEYS[1], ARGV[5])
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return {allowed, count, oldest[2] or false}
+`;
+
+function windowKey(policy: RateLimitPolicy, scope: 'ip' | 'owner', id: string) {
+  return `ratelimit:${policy}:${scope}:${id}`;
+}
+
+/** Load rate limits from `file` (JSON or YAML). No file means `DEFAULT_RATE_LIMITS`; an invalid file throws. */
+export async function loadRateLimitConfig(file: string): Promise<RateLimitConfig> {
+  let text: string;
+  try {
+    text = await fs.readFile(file, 'utf8');
+  } catch (e: any) {
+    if (e?.code !== 'ENOENT') throw e;
+    console.log(`[rate-limits] ${file} not found, using the default limits`);
+    return DEFAULT_RATE_LIMITS;
+  }
+  const ext = path.extname(file).toLowerCase();
+  const raw = ext === '.yaml' || ext === '.yml' ? YAML.parse(text) : JSON.parse(text);
+  return RateLimitConfigSchema.parse(raw);
+}
+
+type Hit = { budget: Budget; allowed: boolean; remaining: number; resetMs: number };
+
+export type RateLimiter = {
+  /**
+   * Express middleware enforcing `policy`: per client IP, and per owner when `ownerOf`
+   * returns one (mount it after the request is validated).
+   */
+  limit<Req extends MiddlewareRequest>(policy: RateLimitPolicy, ownerOf?: (req: Req) => unknown): (req: Req, res: Response, next: NextFunction) => Promise<void>;
+};
+
+export function createRateLimiter(deps: { redis: Redis; config: RateLimitConfig }): RateLimiter {
+  const { redis, config } = deps;
+
+  async function hit(policy: RateLimitPolicy, scope: 'ip' | 'owner', id: string, budget: Budget): Promise<Hit> {
+    const now = Date.now();
+    const windowMs = Math.ceil(budget.windowSeconds * 1000);
+    const member = `${now}:${randomBytes(6).toString('hex')}`;
+    const [allowed, count, oldest] = (await redis.eval(
+      HIT_LUA, 1, windowKey(policy, scope, id), now, now - windowMs, budget.limit, member, windowMs
+    )) as [number, number, string | null];
+    const resetMs = Math.max(0, (oldest ? Number(oldest) : now) + windowMs - now);
+    return { budget, allowed: allowed === 1, remaining: Math.max(0, budget.limit - count), resetMs };
+  }
+
+  /** Headers for the tightest budget seen so far on this response. */
+  function setHeaders(res: Response, hits: Hit[]) {
+    const previous: Hit | undefined = res.locals.rateLimit;
+    const tightest = [...hits, ...(previous ? [previous] : [])].reduce((a, b) => (b.remaining < a.remaining ? b : a));
+    res.locals.rateLimit = tightest;
+    res.set({
+      'RateLimit-Limit': String(tightest.budget.limit),
+      'RateLimit-Remaining': String(tightest.remaining),
+      'RateLimit-Reset': String(Math.ceil(tightest.resetMs / 1000)),
+      'RateLimit-Policy': `${tightest.budget.limit};w=${tightest.budget.windowSeconds}`,
+    });
+  }
+
+  return {
+    limit(policy, ownerOf) {
+      const budgets = config.policies[policy];
+      return async (req, res, next) => {
+        if (!budgets) return next();
+        let hits: Hit[];
+        try {
+          const owner = ownerOf ? String(ownerOf(req) ?? '') : '';
+          hits = await Promise.all([
+            budgets.ip ? hit(policy, 'ip', req.ip || 'unknown', budgets.ip) : null,
+            budgets.owner && owner ? hit(policy, 'owner', owner, budgets.owner) : null,
+          ]).then((all) => all.filter((h): h is Hit => h !== null));
+        } catch (e) {
+          console.error(`Rate limit check (${policy}) failed, letting the request through:`, e);
+          return next();
+        }
+        if (hits.length === 0) return next();
+        setHeaders(res, hits);
+        const refused = hits.filter((h) => !h.allowed);
+        if (refused.length) {
+          const retryAfter = Math.max(1, Math.ceil(Math.max(...refused.map((h) => h.resetMs)) / 1000));
+          res.set('Retry-After', String(retryAfter));
+          fail(res, 'RATE_LIMITED', `Too many requests, retry in ${retryAfter}s`, { retryAfter });
+          return;
+        }
+        next();
+      };
+    },
+  };
+}
@@ -1,36 +1,35 @@
-import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { AssetStandard } from './assets.js';
 
 /**
- * Your requested probabilities were:
- * - 90% Nothing
- * - 10% Elementals NFT
- * - 1%  0.5 SOL
- * - 0.1% 2.5 SOL
+ * Prize kinds and weighted selection.
  *
- * Note: These add up to 101.1%. The code below treats them as weights and normalizes them to 100%.
- * If you want different exact percentages, adjust the weights array accordingly.
+ * The prize table itself lives in a config file (see prizeTable.ts). Weights don't have
+ * to add up to 100: they are normalized to probabilities before rolling.
  */
+export type SinglePrize =
+  { kind: 'NFT', label: string, mint?: string, standard?: AssetStandard } | // mint (asset id) is set once the payout picks one
+  { kind: 'SOL', lamports: number, label: string } |
+  // amount in UI units of the mint; rawAmount (base units, exact) is set on refunds and is what gets sent
+  { kind: 'TOKEN', mint: string, amount: number, rawAmount?: string, label: string };
+
 export type PrizeKind = { kind: 'NOTHING' } |
-  { kind: 'NFT', label: string } |
-  { kind: 'SOL', lamports: number, label: string };
+  SinglePrize |
+  { kind: 'BUNDLE', label: string, items: SinglePrize[] }; // paid together in one transaction
 
-type Weighted<T> = { weight: number, item: T };
+export type Weighted<T> = { weight: number, item: T };
 
 export function normalizeWeights<T>(items: Weighted<T>[]) {
   const total = items.reduce((s, x) => s + x.weight, 0);
   return items.map(x => ({ p: x.weight / total, item: x.item }));
 }
 
-const PRIZES: Weighted<PrizeKind>[] = [
-  { weight: 85.3, item: { kind: 'NOTHING' } },  // 86.4
-  { weight: 7.5, item: { kind: 'NFT', label: 'Elementals NFT' } },
-  { weight: 0.25,  item: { kind: 'SOL', lamports: 0.5 * LAMPORTS_PER_SOL, label: '0.5 SOL' } }, // 1.0
-  { weight: 0.01,  item: { kind: 'SOL', lamports: 2.5 * LAMPORTS_PER_SOL, label: '2.5 SOL' } }, // 0.1
-];
-
-export function choosePrize(): PrizeKind {
-  const normalized = normalizeWeights(PRIZES);
-  let r = Math.random();
+/**
+ * Map a roll in [0, 1) onto the prize table. Rolls come from `computeRoll` in
+ * fairness.ts so anyone can recompute the outcome once the server seed is revealed.
+ */
+export function choosePrize(roll: number, prizes: Weighted<PrizeKind>[]): PrizeKind {
+  const normalized = normalizeWeights(prizes);
+  let r = roll;
   for (const { p, item } of normalized) {
     if (r < p) return item;
     r -= p;
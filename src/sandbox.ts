@@ -0,0 +1,474 @@
+/* eslint-disable no-console */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { z } from 'zod';
+import YAML from 'yaml';
+import Redis from 'ioredis';
+import bs58 from 'bs58';
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+
+import { ASSET_STANDARDS, AssetLayer, AssetStandard, OwnedAsset } from './assets.js';
+import { ChainGateway, TokenAccount } from './chain.js';
+import { decodeSystemTransfer, FlatInstruction, LoadedPayment, memosOf, TokenBalance } from './payment.js';
+import { MEMO_PROGRAM_ID } from './intents.js';
+import { rawToUiAmountString, uiToRawAmount } from './utils.js';
+
+/**
+ * Offline sandbox (`SANDBOX=1`): an in-memory chain and an in-memory Redis.
+ *
+ * The chain holds SOL and token balances and NFTs, seeded from a file, and executes the
+ * transactions the API builds (SOL and SPL token transfers, associated token accounts,
+ * memos) without checking signatures, so `/sandbox/pay` can stand in for a wallet. NFT
+ * prizes are moved by a sandbox memo instead of a Metaplex transfer. Everything is lost
+ * on restart. Transaction fees and lookup tables aren't modelled; token-2022 mints only
+ * differ in the program their accounts and instructions go through (no extensions).
+ */
+
+const NFT_TRANSFER_MEMO = 'sandbox:transfer:';
+const BLOCKHASH_VALIDITY = 150;
+
+const Address = z.string().refine((s) => {
+  try {
+    return Boolean(new PublicKey(s));
+  } catch {
+    return false;
+  }
+}, { message: 'Invalid address' });
+
+const SandboxNftSchema = z.object({
+  id: Address,
+  standard: z.enum(ASSET_STANDARDS as [AssetStandard, ...AssetStandard[]]).default('nft'),
+  // Verified collection address; NFTs of the legacy collection name are matched by the ELMNT symbol instead
+  collection: Address.optional(),
+  symbol: z.string().default(''),
+}).strict();
+
+export const SandboxWalletSchema = z.object({
+  lamports: z.number().int().nonnegative().default(0),
+  // UI amounts by mint; the mints must be listed in `mints`
+  tokens: z.record(z.number().nonnegative()).default({}),
+  nfts: z.array(SandboxNftSchema).default([]),
+}).strict();
+
+export const SandboxSeedSchema = z.object({
+  mints: z.array(z.object({
+    address: Address,
+    decimals: z.number().int().min(0).max(18),
+    program: z.enum(['token', 'token-2022']).default('token'),
+  }).strict()).default([]),
+  // Funds for the treasury keypair, whatever its address
+  treasury: SandboxWalletSchema.default({}),
+  wallets: z.array(SandboxWalletSchema.extend({ address: Address })).default([]),
+}).strict();
+
+export type SandboxWallet = z.input<typeof SandboxWalletSchema>;
+export type SandboxSeed = z.infer<typeof SandboxSeedSchema>;
+
+/** Load the seed from `file` (JSON or YAML). No file means an empty chain; an invalid file throws. */
+export async function loadSandboxSeed(file: string): Promise<SandboxSeed> {
+  let text: string;
+  try {
+    text = await fs.readFile(file, 'utf8');
+  } catch (e: any) {
+    if (e?.code !== 'ENOENT') throw e;
+    console.log(`[sandbox] ${file} not found, starting with empty wallets`);
+    return SandboxSeedSchema.parse({});
+  }
+  const ext = path.extname(file).toLowerCase();
+  return SandboxSeedSchema.parse(ext === '.yaml' || ext === '.yml' ? YAML.parse(text) : JSON.parse(text));
+}
+
+type ChainState = {
+  lamports: Map<string, bigint>;
+  tokens: Map<string, bigint>; // `<owner>:<mint>` -> raw amount
+  tokenAccounts: Map<string, { owner: string; mint: string }>; // associated token account -> owner, mint
+  nfts: Map<string, { owner: string; asset: OwnedAsset }>;
+};
+
+function cloneState(state: ChainState): ChainState {
+  return {
+    lamports: new Map(state.lamports),
+    tokens: new Map(state.tokens),
+    tokenAccounts: new Map(state.tokenAccounts),
+    nfts: new Map(state.nfts),
+  };
+}
+
+export type MemoryChain = ChainGateway & {
+  /** Add SOL, tokens and NFTs to a wallet. */
+  fund(owner: PublicKey, wallet: SandboxWallet): void;
+  /** Execute a serialized transaction as if its signers had signed it. Returns its signature. */
+  submit(serialized: Uint8Array): string;
+  describeWallet(owner: PublicKey): {
+    address: string;
+    lamports: number;
+    tokens: { mint: string; amount: string }[];
+    nfts: OwnedAsset[];
+  };
+};
+
+export function createMemoryChain(deps: { seed: SandboxSeed; treasury: PublicKey; standards: AssetStandard[] }): MemoryChain {
+  const { seed, treasury, standards } = deps;
+  const mints = new Map(seed.mints.map((m) => [m.address, {
+    decimals: m.decimals,
+    programId: m.program === 'token-2022' ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID,
+  }]));
+  const transactions = new Map<string, LoadedPayment>();
+  const failed = new Map<string, string>(); // signature -> error, for signed transactions that failed
+  let state: ChainState = { lamports: new Map(), tokens: new Map(), tokenAccounts: new Map(), nfts: new Map() };
+  let slot = 1;
+
+  function mintInfo(mint: string) {
+    const info = mints.get(mint);
+    if (!info) throw new Error(`Unknown mint ${mint}`);
+    return info;
+  }
+  function mintDecimals(mint: string) {
+    return mintInfo(mint).decimals;
+  }
+
+  function tokenAccountAddress(owner: string, mint: string) {
+    return getAssociatedTokenAddressSync(new PublicKey(mint), new PublicKey(owner), true, mintInfo(mint).programId).toBase58();
+  }
+
+  function registerTokenAccount(s: ChainState, owner: string, mint: string) {
+    s.tokenAccounts.set(tokenAccountAddress(owner, mint), { owner, mint });
+  }
+
+  function moveLamports(s: ChainState, from: string, to: string, amount: bigint) {
+    const balance = s.lamports.get(from) ?? 0n;
+    if (balance < amount) throw new Error(`Insufficient lamports in ${from}`);
+    s.lamports.set(from, balance - amount);
+    s.lamports.set(to, (s.lamports.get(to) ?? 0n) + amount);
+  }
+
+  /** Execute one instruction against `s`; `touched` collects the `<owner>:<mint>` balances it changed. */
+  function apply(s: ChainState, ix: FlatInstruction, touched: Set<string>) {
+    const accounts = ix.accounts.map((a) => a?.toBase58() ?? '');
+    if (ix.programId?.equals(ComputeBudgetProgram.programId)) return;
+
+    if (ix.programId?.equals(SystemProgram.programId)) {
+      const transfer = decodeSystemTransfer(ix);
+      if (!transfer?.from || !transfer.to) throw new Error('Only SOL transfers are supported by the sandbox system program');
+      moveLamports(s, transfer.from.toBase58(), transfer.to.toBase58(), transfer.lamports);
+      return;
+    }
+
+    if (ix.programId?.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+      // [payer, account, owner, mint, ...]
+      if (accounts[1] !== tokenAccountAddress(accounts[2], accounts[3])) {
+        throw new Error(`Associated token account of ${accounts[3]} is not derived for its token program`);
+      }
+      registerTokenAccount(s, accounts[2], accounts[3]);
+      return;
+    }
+
+    if (ix.programId?.equals(TOKEN_PROGRAM_ID) || ix.programId?.equals(TOKEN_2022_PROGRAM_ID)) {
+      // Transfer (3): [source, destination, authority]; TransferChecked (12): [source, mint, destination, authority]
+      const type = ix.data[0];
+      if (type !== 3 && type !== 12) throw new Error(`Token instruction ${type} is not supported by the sandbox`);
+      const [source, destination, authority] = type === 3 ? accounts : [accounts[0], accounts[2], accounts[3]];
+      const from = s.tokenAccounts.get(source);
+      const to = s.tokenAccounts.get(destination);
+      if (!from || !to) throw new Error('Token account does not exist');
+      if (from.owner !== authority) throw new Error('Token transfer not signed by the account owner');
+      if (from.mint !== to.mint || (type === 12 && accounts[1] !== from.mint)) throw new Error('Token mint mismatch');
+      if (!ix.programId.equals(mintInfo(from.mint).programId)) throw new Error(`${from.mint} is not owned by ${ix.programId.toBase58()}`);
+      const amount = ix.data.readBigUInt64LE(1);
+      const fromKey = `${from.owner}:${from.mint}`;
+      const toKey = `${to.owner}:${to.mint}`;
+      const balance = s.tokens.get(fromKey) ?? 0n;
+      if (balance < amount) throw new Error(`Insufficient ${from.mint} in ${from.owner}`);
+      s.tokens.set(fromKey, balance - amount);
+      s.tokens.set(toKey, (s.tokens.get(toKey) ?? 0n) + amount);
+      touched.add(fromKey).add(toKey);
+      return;
+    }
+
+    if (ix.programId?.equals(MEMO_PROGRAM_ID)) {
+      const memo = ix.data.toString('utf8');
+      if (!memo.startsWith(NFT_TRANSFER_MEMO)) return;
+      const [id, to] = memo.slice(NFT_TRANSFER_MEMO.length).split(':');
+      const nft = s.nfts.get(id);
+      if (!nft || nft.owner !== accounts[0]) throw new Error(`NFT ${id} is not held by ${accounts[0]}`);
+      s.nfts.set(id, { ...nft, owner: to });
+      return;
+    }
+
+    throw new Error(`Program ${ix.programId?.toBase58()} is not supported by the sandbox`);
+  }
+
+  function tokenBalances(s: ChainState, touched: Set<string>): TokenBalance[] {
+    return [...touched].map((key, accountIndex) => {
+      const [owner, mint] = key.split(':');
+      const amount = (s.tokens.get(key) ?? 0n).toString();
+      return { accountIndex, mint, owner, uiTokenAmount: { amount, decimals: mintDecimals(mint) } };
+    });
+  }
+
+  function submit(serialized: Uint8Array): string {
+    const tx = VersionedTransaction.deserialize(serialized);
+    const { message } = tx;
+    if (message.addressTableLookups.length) throw new Error('Address lookup tables are not supported by the sandbox');
+    const keys = message.staticAccountKeys;
+    const instructions: FlatInstruction[] = message.compiledInstructions.map((ix) => ({
+      programId: keys[ix.programIdIndex],
+      accounts: ix.accountKeyIndexes.map((i) => keys[i]),
+      data: Buffer.from(ix.data),
+    }));
+
+    const signed = tx.signatures[0]?.some((b) => b !== 0);
+    const signature = bs58.encode(signed ? tx.signatures[0] : randomBytes(64));
+
+    // All or nothing; a signed transaction that fails lands as failed, like on chain
+    const next = cloneState(state);
+    const touched = new Set<string>();
+    try {
+      for (const ix of instructions) apply(next, ix, touched);
+    } catch (e) {
+      if (signed) failed.set(signature, e instanceof Error ? e.message : String(e));
+      throw e;
+    }
+    slot += 1;
+    transactions.set(signature, {
+      slot,
+      blockTime: Math.floor(Date.now() / 1000),
+      memos: memosOf(instructions),
+      instructions,
+      tokenBalances: { pre: tokenBalances(state, touched), post: tokenBalances(next, touched) },
+    });
+    state = next;
+    return signature;
+  }
+
+  function fund(owner: PublicKey, input: SandboxWallet) {
+    const wallet = SandboxWalletSchema.parse(input);
+    const address = owner.toBase58();
+    for (const mint of Object.keys(wallet.tokens)) mintDecimals(mint);
+    state.lamports.set(address, (state.lamports.get(address) ?? 0n) + BigInt(wallet.lamports));
+    for (const [mint, amount] of Object.entries(wallet.tokens)) {
+      const key = `${address}:${mint}`;
+      state.tokens.set(key, (state.tokens.get(key) ?? 0n) + uiToRawAmount(amount, mintDecimals(mint)));
+      registerTokenAccount(state, address, mint);
+    }
+    for (const nft of wallet.nfts) {
+      state.nfts.set(nft.id, {
+        owner: address,
+        asset: {
+          id: nft.id,
+          standard: nft.standard,
+          collection: nft.collection ?? null,
+          collectionVerified: Boolean(nft.collection),
+          symbol: nft.symbol,
+        },
+      });
+    }
+  }
+
+  function getTokenAccounts(owner: PublicKey): TokenAccount[] {
+    const prefix = `${owner.toBase58()}:`;
+    return [...state.tokens]
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, raw]) => {
+        const mint = key.slice(prefix.length);
+        const d = mintDecimals(mint);
+        return { mint, amount: raw.toString(), decimals: d, uiAmountString: rawToUiAmountString(raw, d) };
+      });
+  }
+
+  const assets: AssetLayer = {
+    standards,
+    async listOwned(owner) {
+      return [...state.nfts.values()]
+        .filter((n) => n.owner === owner.toBase58() && standards.includes(n.asset.standard))
+        .map((n) => n.asset);
+    },
+    async transferInstructions(asset, from, to) {
+      if (!standards.includes(asset.standard)) throw new Error(`Asset standard ${asset.standard} is not enabled`);
+      return [
+        new TransactionInstruction({
+          programId: MEMO_PROGRAM_ID,
+          keys: [{ pubkey: from.publicKey, isSigner: true, isWritable: false }],
+          data: Buffer.from(`${NFT_TRANSFER_MEMO}${asset.id}:${to.toBase58()}`, 'utf8'),
+        }),
+      ];
+    },
+  };
+
+  fund(treasury, seed.treasury);
+  for (const { address, ...wallet } of seed.wallets) fund(new PublicKey(address), wallet);
+
+  return {
+    assets,
+    fund,
+    submit,
+    describeWallet(owner) {
+      const address = owner.toBase58();
+      return {
+        address,
+        lamports: Number(state.lamports.get(address) ?? 0n),
+        tokens: getTokenAccounts(owner).map((a) => ({ mint: a.mint, amount: a.uiAmountString })),
+        nfts: [...state.nfts.values()].filter((n) => n.owner === address).map((n) => n.asset),
+      };
+    },
+    getVersion: async () => ({ 'solana-core': 'sandbox' }),
+    getBalance: async (address) => Number(state.lamports.get(address.toBase58()) ?? 0n),
+    getMintInfo: async (mint) => mintInfo(mint.toBase58()),
+    getTokenAccounts: async (owner) => getTokenAccounts(owner),
+    async loadPayment(signature) {
+      const payment = transactions.get(signature);
+      return payment ? { ok: true, payment } : { ok: false, err: 'Transaction not found or not confirmed' };
+    },
+    getLatestBlockhash: async () => ({
+      blockhash: bs58.encode(randomBytes(32)),
+      lastValidBlockHeight: slot + BLOCKHASH_VALIDITY,
+    }),
+    getBlockHeight: async () => slot,
+    async getSignatureStatus(signature) {
+      if (transactions.has(signature)) return { err: null, confirmationStatus: 'confirmed' };
+      return failed.has(signature) ? { err: failed.get(signature), confirmationStatus: 'confirmed' } : null;
+    },
+    async sendAndConfirm(tx: Transaction) {
+      submit(tx.serialize());
+      return { err: null };
+    },
+  };
+}
+
+/*
+ * Minimal `cjson` for the Lua VM of ioredis-mock, which doesn't have the library real Redis
+ * ships. Prepended to every script; only what the scripts in this repo need.
+ */
+const CJSON_LUA = `
+local cjson = {}
+cjson.null = setmetatable({}, { __tostring = function() return 'null' end })
+local escapes = { ['"'] = '\\\\"', ['\\\\'] = '\\\\\\\\', ['\\b'] = '\\\\b', ['\\f'] = '\\\\f', ['\\n'] = '\\\\n', ['\\r'] = '\\\\r', ['\\t'] = '\\\\t' }
+local function isArray(t)
+  local n = 0
+  for k in pairs(t) do
+    if type(k) ~= 'number' then return false end
+    n = n + 1
+  end
+  return n > 0 and n == #t
+end
+function cjson.encode(v)
+  local t = type(v)
+  if v == nil or v == cjson.null then return 'null' end
+  if t == 'boolean' then return tostring(v) end
+  if t == 'number' then
+    if v == math.floor(v) and math.abs(v) < 2^53 then return string.format('%.0f', v) end
+    return string.format('%.14g', v)
+  end
+  if t == 'string' then
+    return '"' .. (v:gsub('[%c"\\\\]', function(c) return escapes[c] or string.format('\\\\u%04x', c:byte()) end)) .. '"'
+  end
+  local out = {}
+  if isArray(v) then
+    for i = 1, #v do out[i] = cjson.encode(v[i]) end
+    return '[' .. table.concat(out, ',') .. ']'
+  end
+  for k, x in pairs(v) do out[#out + 1] = cjson.encode(tostring(k)) .. ':' .. cjson.encode(x) end
+  return '{' .. table.concat(out, ',') .. '}'
+end
+function cjson.decode(s)
+  local pos = 1
+  local function skip() pos = s:find('[^ \\t\\r\\n]', pos) or #s + 1 end
+  local function str()
+    local out, i = {}, pos + 1
+    while true do
+      local c = s:sub(i, i)
+      if c == '"' then pos = i + 1; return table.concat(out) end
+      if c == '' then error('cjson: unterminated string') end
+      if c == '\\\\' then
+        local e = s:sub(i + 1, i + 1)
+        if e == 'u' then
+          out[#out + 1] = utf8.char(tonumber(s:sub(i + 2, i + 5), 16)); i = i + 6
+        else
+          out[#out + 1] = ({ b = '\\b', f = '\\f', n = '\\n', r = '\\r', t = '\\t' })[e] or e; i = i + 2
+        end
+      else
+        out[#out + 1] = c; i = i + 1
+      end
+    end
+  end
+  local value
+  function value()
+    skip()
+    local c = s:sub(pos, pos)
+    if c == '{' or c == '[' then
+      local result, close = {}, c == '{' and '}' or ']'
+      pos = pos + 1; skip()
+      if s:sub(pos, pos) == close then pos = pos + 1; return result end
+      while true do
+        if close == '}' then
+          skip(); local k = str(); skip(); pos = pos + 1
+          result[k] = value()
+        else
+          result[#result + 1] = value()
+        end
+        skip()
+        local d = s:sub(pos, pos); pos = pos + 1
+        if d == close then return result end
+        if d ~= ',' then error('cjson: unexpected ' .. d) end
+      end
+    end
+    if c == '"' then return str() end
+    for word, v in pairs({ ['true'] = true, ['false'] = false, null = cjson.null }) do
+      if s:sub(pos, pos + #word - 1) == word then pos = pos + #word; return v end
+    end
+    local num = s:match('^-?%d+%.?%d*[eE]?[-+]?%d*', pos)
+    if not num then error('cjson: unexpected ' .. c) end
+    pos = pos + #num
+    return tonumber(num)
+  end
+  return value()
+end
+`;
+
+/** ioredis-mock numbers stream entries 1, 2, 3... and compares range bounds as integers. */
+function streamBound(bound: string, step: 1 | -1): string {
+  if (bound === '-' || bound === '+') return bound;
+  const exclusive = bound.startsWith('(');
+  const n = parseInt(exclusive ? bound.slice(1) : bound, 10);
+  return String(exclusive ? n + step : n);
+}
+
+/**
+ * An in-memory Redis (ioredis-mock, loaded only in sandbox mode), with `cjson` available to
+ * scripts, Lua `false` replies read as nil like real Redis, and exclusive stream ranges.
+ * Streams aren't trimmed exactly like Redis does.
+ */
+export async function createMemoryRedis(): Promise<Redis> {
+  const { default: RedisMock } = await import('ioredis-mock');
+  const redis: Redis = new RedisMock();
+  const evalScript = redis.eval.bind(redis);
+  const xrange = redis.xrange.bind(redis);
+  const xrevrange = redis.xrevrange.bind(redis);
+  const range = (read: typeof xrange, key: string, from: string, to: string, count?: number) =>
+    (count === undefined ? read(key, from, to) : read(key, from, to, 'COUNT', count));
+  Object.assign(redis, {
+    eval: async (script: string, numKeys: number, ...args: (string | number)[]) => {
+      const reply = await evalScript(CJSON_LUA + script, numKeys, ...args);
+      return reply === false ? null : reply;
+    },
+    xrange: (key: string, start: string, end: string, _count?: 'COUNT', count?: number) =>
+      range(xrange, key, streamBound(start, 1), streamBound(end, -1), count),
+    xrevrange: (key: string, end: string, start: string, _count?: 'COUNT', count?: number) =>
+      range(xrevrange, key, streamBound(end, -1), streamBound(start, 1), count),
+  });
+  return redis;
+}
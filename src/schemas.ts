@@ -0,0 +1,541 @@
+import { z } from 'zod';
+import { PublicKey } from '@solana/web3.js';
+
+import { SandboxWalletSchema } from './sandbox.js';
+
+/**
+ * Request and response schemas of every route, applied with `validate` (see http.ts).
+ *
+ * Query strings are coerced (`?limit=20` becomes a number) and defaults filled in, so
+ * handlers read plain values. Response schemas describe the whole success body, and
+ * handlers are typed against them, so a body that drifts from its schema fails to compile.
+ */
+
+// Parsed into a PublicKey, so handlers get the key itself
+const PublicKeySchema = z.string().transform((s, ctx) => {
+  try {
+    return new PublicKey(s);
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid public key' });
+    return z.NEVER;
+  }
+});
+
+// Transaction signatures (64 bytes) in base58
+const SignatureSchema = z.string().regex(/^[1-9A-HJ-NP-Za-km-z]{64,90}$/, { message: 'Invalid transaction signature' });
+const StreamIdSchema = z.string().regex(/^\d+-\d+$/, { message: 'Invalid cursor' });
+const BoxIdSchema = z.string().min(1).max(64);
+const limit = (max: number, fallback: number) => z.coerce.number().int().min(1).max(max).default(fallback);
+
+const Ok = z.object({ ok: z.literal(true) });
+
+const PrizeKindNameSchema = z.enum(['NOTHING', 'NFT', 'SOL', 'TOKEN', 'BUNDLE']);
+
+type PrizeDescriptionShape = {
+  kind: 'NOTHING' | 'NFT' | 'SOL' | 'TOKEN' | 'BUNDLE';
+  label: string;
+  lamports?: number;
+  mint?: string;
+  standard?: string;
+  amount?: number;
+  rawAmount?: string;
+  items?: PrizeDescriptionShape[];
+};
+const PrizeDescriptionSchema: z.ZodType<PrizeDescriptionShape> = z.lazy(() => z.object({
+  kind: PrizeKindNameSchema,
+  label: z.string(),
+  lamports: z.number().optional(),
+  mint: z.string().optional(),
+  standard: z.string().optional(),
+  amount: z.number().optional(),
+  rawAmount: z.string().optional(),
+  items: z.array(PrizeDescriptionSchema).optional(),
+}));
+
+const PaymentSchema = z.object({
+  currency: z.enum(['SOL', 'TOKEN']),
+  mint: z.string().optional(),
+  amount: z.string(),
+  decimals: z.number().optional(),
+});
+
+const CreditSchema = z.object({
+  id: z.string(),
+  box: z.string(),
+  status: z.enum(['available', 'spending', 'spent', 'refunding', 'refunded']),
+  payment: PaymentSchema,
+  reason: z.string(),
+  refundPayoutId: z.string().nullable(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+const PayoutStatusSchema = z.enum(['queued', 'sending', 'confirmed', 'failed']);
+const PayoutTypeSchema = z.enum(['prize', 'refund']);
+
+const PrizeTableSchema = z.object({
+  version: z.string(),
+  loadedAt: z.number(),
+  totalWeight: z.number(),
+  nftPrizesDisabled: z.boolean(),
+  prizes: z.array(z.intersection(PrizeDescriptionSchema, z.object({ weight: z.number(), probability: z.number() }))),
+});
+
+const ProgressionEffectSchema = z.object({
+  rule: z.enum(['pity', 'streak']).nullable(),
+  streak: z.number(),
+  multiplier: z.number(),
+  nothingInARow: z.number(),
+}).optional();
+
+const ProgressSchema = z.object({
+  streak: z.number(),
+  openedToday: z.boolean(),
+  nextOpenMultiplier: z.number(),
+  pity: z.object({
+    nothingInARow: z.number(),
+    after: z.number(),
+    remaining: z.number(),
+    due: z.boolean(),
+    kinds: z.array(PrizeKindNameSchema),
+  }).nullable(),
+});
+
+const BudgetSchema = z.object({ budget: z.number().nullable(), used: z.number(), remaining: z.number().nullable() });
+
+const SolvencySchema = z.object({
+  balanceLamports: z.number(),
+  pendingPayoutLamports: z.number(),
+  availableLamports: z.number(),
+  largestPrizeLamports: z.number(),
+  solvent: z.boolean(),
+  lowBalance: z.boolean(),
+  lowBalanceThresholdLamports: z.number(),
+  mode: z.enum(['pause', 'downgrade']),
+  day: z.string(),
+  budgets: z.object({ SOL: BudgetSchema, NFT: BudgetSchema, TOKEN: BudgetSchema }),
+});
+
+const InventoryStatusSchema = z.object({
+  available: z.number(),
+  reserved: z.array(z.object({
+    standard: z.enum(['nft', 'pnft', 'cnft', 'core']),
+    id: z.string(),
+    payoutId: z.string(),
+    reservedAt: z.number(),
+  })),
+  refreshedAt: z.number().nullable(),
+  lowStockThreshold: z.number(),
+  lowStock: z.boolean(),
+});
+
+const PageSchema = { nextCursor: z.string().nullable() };
+
+/* -------------------- PUBLIC -------------------- */
+
+export const HealthRoute = {
+  response: Ok.extend({
+    network: z.object({ 'solana-core': z.string(), 'feature-set': z.number().optional() }).nullable(),
+    treasury: z.string(),
+    treasuryBalanceSOL: z.number(),
+    prizeTable: z.object({ version: z.string(), loadedAt: z.number() }),
+    solvency: SolvencySchema,
+  }),
+};
+
+export const PrizesRoute = {
+  query: z.object({ box: BoxIdSchema.optional() }),
+  response: Ok.extend({ box: z.string() }).merge(PrizeTableSchema),
+};
+
+export const BoxesRoute = {
+  response: Ok.extend({
+    boxes: z.array(z.object({
+      id: z.string(),
+      name: z.string(),
+      fee: z.object({ lamports: z.number(), token: z.object({ mint: z.string(), amount: z.number() }).nullable() }),
+      tiers: z.array(z.string()),
+      cooldownHours: z.number().nullable(),
+      startsAt: z.number().nullable(),
+      endsAt: z.number().nullable(),
+      supply: z.number().nullable(),
+      status: z.enum(['upcoming', 'active', 'ended', 'soldOut']),
+      prizeTable: PrizeTableSchema,
+    })),
+  }),
+};
+
+export const FairnessRoute = {
+  response: Ok.extend({
+    current: z.object({ hash: z.string(), createdAt: z.number(), rotatesAt: z.number() }),
+    revealed: z.array(z.object({ id: z.string(), seed: z.string(), hash: z.string(), createdAt: z.number(), rotatedAt: z.number().optional() })),
+  }),
+};
+
+export const VerifyRoute = {
+  params: z.object({ signature: SignatureSchema }),
+  response: Ok.extend({
+    signature: z.string(),
+    revealed: z.boolean(),
+    serverSeedHash: z.string(),
+    serverSeed: z.string().nullable(),
+    hashMatches: z.boolean().nullable(),
+    clientSeed: z.string(),
+    nonce: z.number(),
+    roll: z.number(),
+    recomputedRoll: z.number().nullable(),
+    prizeTableVersion: z.string(),
+    result: PrizeDescriptionSchema.nullable(),
+  }),
+};
+
+export const PayoutRoute = {
+  params: z.object({ id: z.string().min(1).max(128) }),
+  response: Ok.extend({
+    payout: z.object({
+      id: z.string(),
+      type: PayoutTypeSchema,
+      owner: z.string(),
+      status: PayoutStatusSchema,
+      prize: PrizeDescriptionSchema,
+      txSig: z.string().nullable(),
+      attempts: z.number(),
+      lastError: z.string().nullable(),
+      createdAt: z.number(),
+      updatedAt: z.number(),
+    }),
+  }),
+};
+
+export const RecentWinsRoute = {
+  query: z.object({ limit: limit(100, 20) }),
+  response: Ok.extend({
+    wins: z.array(z.object({
+      id: z.string(),
+      owner: z.string(),
+      prize: PrizeDescriptionSchema,
+      payoutId: z.string().nullable(),
+      openedAt: z.number(),
+    })),
+  }),
+};
+
+export const FeedRoute = {
+  query: z.object({ lastEventId: StreamIdSchema.optional() }),
+};
+
+/* -------------------- SESSIONS -------------------- */
+
+export const AuthNonceRoute = {
+  body: z.object({ owner: PublicKeySchema }),
+  response: Ok.extend({ owner: z.string(), nonce: z.string(), message: z.string(), expiresAt: z.number() }),
+};
+
+export const AuthVerifyRoute = {
+  body: z.object({
+    owner: PublicKeySchema,
+    nonce: z.string().regex(/^[0-9a-f]{32}$/, { message: 'Invalid nonce' }),
+    signature: z.string().min(1).max(128),
+  }),
+  response: Ok.extend({ owner: z.string(), token: z.string(), expiresAt: z.number() }),
+};
+
+export const AuthSessionRoute = {
+  response: Ok.extend({ owner: z.string(), expiresAt: z.number() }),
+};
+
+export const AuthLogoutRoute = {
+  response: Ok,
+};
+
+/* -------------------- OWNER-SCOPED -------------------- */
+
+export const EligibilityRoute = {
+  query: z.object({ owner: PublicKeySchema, box: BoxIdSchema.optional() }),
+  response: Ok.extend({
+    owner: z.string(),
+    box: z.string(),
+    eligible: z.boolean(),
+    holdings: z.object({
+      collections: z.array(z.object({ collection: z.string(), count: z.number(), mints: z.array(z.string()) })),
+      tokens: z.array(z.object({ mint: z.string(), balance: z.number() })),
+      checkedAt: z.number(),
+      cached: z.boolean(),
+    }),
+    opens: z.object({ used: z.number(), limit: z.number(), remaining: z.number(), cooldownMs: z.number(), windowMs: z.number() }),
+    tiers: z.array(z.string()),
+    combine: z.string(),
+    gates: z.array(z.object({
+      gate: z.string(),
+      type: z.enum(['collection', 'token']),
+      tier: z.string(),
+      matched: z.boolean(),
+      reason: z.string(),
+    })),
+    chargeMode: z.enum(['wallet', 'asset']),
+    assets: z.array(z.object({
+      collection: z.string(),
+      mint: z.string(),
+      fresh: z.boolean(),
+      chargedByOwner: z.boolean(),
+      chargedUntil: z.number().nullable(),
+    })).nullable(),
+    progression: ProgressSchema,
+  }),
+};
+
+const BoxParams = z.object({ id: BoxIdSchema });
+
+export const PreparePaymentRoute = {
+  body: z.object({
+    owner: PublicKeySchema,
+    clientSeed: z.string().min(1).max(64).optional(),
+    txVersion: z.enum(['legacy', 'v0']).default('legacy'),
+    // 'SOL' or the fee token mint
+    currency: z.string().min(1).default('SOL'),
+  }),
+  response: Ok.extend({
+    box: z.string(),
+    txBase64: z.string(),
+    txVersion: z.enum(['legacy', 'v0']),
+    recentBlockhash: z.string(),
+    lastValidBlockHeight: z.number(),
+    treasury: z.string(),
+    lamports: z.number().optional(),
+    price: z.union([
+      z.object({ currency: z.literal('SOL'), amount: z.string() }),
+      z.object({
+        currency: z.literal('TOKEN'),
+        mint: z.string(),
+        amount: z.string(),
+        decimals: z.number(),
+        programId: z.string().optional(),
+      }),
+    ]),
+    intentId: z.string(),
+    intentExpiresAt: z.number(),
+    serverSeedHash: z.string(),
+    clientSeed: z.string(),
+  }),
+};
+export const BoxPreparePaymentRoute = { ...PreparePaymentRoute, params: BoxParams };
+
+export const OpenRoute = {
+  body: z.object({
+    owner: PublicKeySchema,
+    signature: SignatureSchema.optional(),
+    creditId: SignatureSchema.optional(),
+  }).refine((b) => Boolean(b.signature) !== Boolean(b.creditId), {
+    message: 'Send either signature or creditId',
+    path: ['signature'],
+  }),
+  response: Ok.extend({
+    box: z.string(),
+    result: PrizeDescriptionSchema,
+    downgradedFrom: PrizeDescriptionSchema.optional(),
+    progression: ProgressionEffectSchema,
+    chargedAsset: z.string().nullable(),
+    creditId: z.string().optional(),
+    payout: z.object({ id: z.string(), status: PayoutStatusSchema }).nullable(),
+    intentId: z.string(),
+    fairness: z.object({
+      serverSeedHash: z.string(),
+      clientSeed: z.string(),
+      nonce: z.number(),
+      prizeTableVersion: z.string(),
+    }),
+    payment: z.object({
+      signature: z.string(),
+      currency: z.enum(['SOL', 'TOKEN']),
+      mint: z.string().optional(),
+      amountToTreasury: z.string(),
+      // Kept for clients of the SOL-only API; amountToTreasury also covers tokens
+      lamportsToTreasury: z.number().optional(),
+      slot: z.number().optional(),
+      blockTime: z.number().optional(),
+    }),
+  }),
+};
+export const BoxOpenRoute = { ...OpenRoute, params: BoxParams };
+
+export const CreditsRoute = {
+  query: z.object({ owner: PublicKeySchema }),
+  response: Ok.extend({ owner: z.string(), credits: z.array(CreditSchema) }),
+};
+
+export const RefundsRoute = {
+  body: z.object({ owner: PublicKeySchema, signature: SignatureSchema }),
+  response: Ok.extend({
+    credit: CreditSchema,
+    payout: z.object({ id: z.string(), status: PayoutStatusSchema, prize: PrizeDescriptionSchema }),
+  }),
+};
+
+export const HistoryRoute = {
+  query: z.object({ owner: PublicKeySchema, limit: limit(100, 20), cursor: StreamIdSchema.optional() }),
+  response: Ok.extend({
+    owner: z.string(),
+    history: z.array(z.object({
+      id: z.string(),
+      owner: z.string(),
+      paymentSignature: z.string(),
+      prize: PrizeDescriptionSchema,
+      openedAt: z.number(),
+      payout: z.object({
+        id: z.string(),
+        status: PayoutStatusSchema,
+        txSig: z.string().nullable(),
+        prize: PrizeDescriptionSchema,
+      }).nullable(),
+    })),
+    ...PageSchema,
+  }),
+};
+
+/* -------------------- ADMIN -------------------- */
+
+const OptionalBoxBody = z.object({ box: BoxIdSchema.optional() });
+const ReasonSchema = z.string().max(500).optional();
+
+export const AdminReloadPrizesRoute = {
+  response: Ok.extend({
+    version: z.string(),
+    tables: z.array(z.object({ file: z.string(), version: z.string(), warnings: z.array(z.string()) })),
+  }),
+};
+
+export const AdminInventoryRoute = {
+  response: Ok.merge(InventoryStatusSchema),
+};
+
+export const AdminWebhooksRoute = {
+  query: z.object({ limit: limit(1000, 50) }),
+  response: Ok.extend({
+    endpoints: z.array(z.object({ id: z.string(), url: z.string(), events: z.array(z.string()) })),
+    queued: z.number(),
+    deadLetters: z.array(z.object({
+      id: z.string(),
+      endpoint: z.string(),
+      // Event payloads differ per event type
+      event: z.object({ id: z.string(), type: z.string(), createdAt: z.number(), data: z.record(z.unknown()) }),
+      attempts: z.number(),
+      nextAttemptAt: z.number(),
+      lastError: z.string().optional(),
+      deadAt: z.number().optional(),
+    })),
+  }),
+};
+
+export const AdminRetryDeadLetterRoute = {
+  params: z.object({ id: z.string().min(1).max(128) }),
+  response: Ok,
+};
+
+export const AdminStatsRoute = {
+  query: z.object({ days: limit(90, 7) }),
+  response: Ok.extend({
+    days: z.array(z.object({
+      day: z.string(),
+      opens: z.object({ total: z.number(), byBox: z.record(z.number()), byPrize: z.record(z.number()) }),
+      paid: z.object({ lamports: z.string(), tokens: z.record(z.string()) }),
+      payouts: z.object({
+        confirmed: z.number(),
+        failed: z.number(),
+        byKind: z.record(z.object({ confirmed: z.number(), failed: z.number() })),
+      }),
+      refunds: z.object({ confirmed: z.number(), failed: z.number() }),
+    })),
+  }),
+};
+
+export const AdminTreasuryRoute = {
+  response: Ok.extend({
+    address: z.string(),
+    balanceSOL: z.number(),
+    solvency: SolvencySchema,
+    tokens: z.array(z.object({ mint: z.string(), amount: z.string(), decimals: z.number(), uiAmountString: z.string() })),
+    prizeNfts: z.array(z.object({ id: z.string(), standard: z.string(), collection: z.string().nullable() })),
+    inventory: InventoryStatusSchema,
+  }),
+};
+
+const PauseSchema = z.object({ box: z.string().nullable(), reason: z.string(), by: z.string(), at: z.number() });
+
+export const AdminPausesRoute = {
+  response: Ok.extend({ pauses: z.array(PauseSchema) }),
+};
+
+export const AdminPauseRoute = {
+  body: OptionalBoxBody.extend({ reason: ReasonSchema }),
+  response: Ok.extend({ pause: PauseSchema }),
+};
+
+export const AdminResumeRoute = {
+  body: OptionalBoxBody,
+  response: Ok.extend({ pauses: z.array(PauseSchema) }),
+};
+
+export const AdminRetryPayoutRoute = {
+  params: z.object({ id: z.string().min(1).max(128) }),
+  response: Ok.extend({ payout: z.object({ id: z.string(), status: PayoutStatusSchema, attempts: z.number() }) }),
+};
+
+export const AdminResetCooldownRoute = {
+  params: z.object({ owner: PublicKeySchema }),
+  body: OptionalBoxBody,
+  response: Ok.extend({ owner: z.string(), boxes: z.array(z.string()), releasedAssets: z.array(z.string()) }),
+};
+
+const BanSchema = z.object({ owner: z.string(), reason: z.string(), by: z.string(), at: z.number() });
+
+export const AdminBansRoute = {
+  response: Ok.extend({ bans: z.array(BanSchema) }),
+};
+
+export const AdminBanRoute = {
+  body: z.object({ owner: PublicKeySchema, reason: ReasonSchema }),
+  response: Ok.extend({ ban: BanSchema }),
+};
+
+export const AdminUnbanRoute = {
+  params: z.object({ owner: PublicKeySchema }),
+  response: Ok,
+};
+
+export const AdminAuditRoute = {
+  query: z.object({ limit: limit(200, 50), cursor: StreamIdSchema.optional() }),
+  response: Ok.extend({
+    entries: z.array(z.object({
+      id: z.string(),
+      actor: z.string().nullable(),
+      action: z.string(),
+      status: z.number(),
+      at: z.number(),
+    })),
+    ...PageSchema,
+  }),
+};
+
+/* -------------------- SANDBOX -------------------- */
+
+const SandboxWalletViewSchema = z.object({
+  address: z.string(),
+  lamports: z.number(),
+  tokens: z.array(z.object({ mint: z.string(), amount: z.string() })),
+  nfts: z.array(z.object({ id: z.string(), standard: z.string(), collection: z.string().nullable() })),
+});
+
+export const SandboxPayRoute = {
+  body: z.object({ txBase64: z.string().min(1).max(4096) }),
+  response: Ok.extend({ signature: z.string() }),
+};
+
+export const SandboxAirdropRoute = {
+  body: SandboxWalletSchema.extend({ owner: PublicKeySchema }),
+  response: Ok.extend({ wallet: SandboxWalletViewSchema }),
+};
+
+export const SandboxWalletRoute = {
+  params: z.object({ owner: PublicKeySchema }),
+  response: Ok.extend({ wallet: SandboxWalletViewSchema }),
+};
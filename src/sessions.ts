@@ -0,0 +1,131 @@
+import { createHash, randomBytes } from 'crypto';
+import { NextFunction, Response } from 'express';
+import { PublicKey } from '@solana/web3.js';
+import Redis from 'ioredis';
+import bs58 from 'bs58';
+
+import { fail, MiddlewareRequest, sendError } from './http.js';
+import { verifyWalletSignature } from './utils.js';
+
+/**
+ * Sign-In With Solana sessions for the owner-scoped routes.
+ *
+ * A wallet asks for a nonce, signs the returned message (ed25519, as `signMessage` does)
+ * and trades the signature for a session token. Nonces are single-use and short-lived;
+ * tokens are only stored hashed. Owner-scoped routes then take `Authorization: Bearer
+ * <token>` and refuse an `owner` other than the session's.
+ */
+
+export type LoginChallenge = { owner: string; nonce: string; message: string; expiresAt: number };
+
+export type Session = { owner: string; createdAt: number; expiresAt: number };
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by the session guard when sessions are required. */
+      session?: Session;
+    }
+  }
+}
+
+function nonceKey(nonce: string) {
+  return `auth:nonce:${nonce}`;
+}
+function sessionKey(token: string) {
+  return `auth:session:${createHash('sha256').update(token).digest('hex')}`;
+}
+
+/** The text the wallet signs, in the Sign-In With Solana layout. */
+function loginMessage(domain: string, owner: string, nonce: string, issuedAt: number, expiresAt: number) {
+  return [
+    `${domain} wants you to sign in with your Solana account:`,
+    owner,
+    '',
+    'Sign in to open boxes and see your history and credits.',
+    '',
+    `Nonce: ${nonce}`,
+    `Issued At: ${new Date(issuedAt).toISOString()}`,
+    `Expiration Time: ${new Date(expiresAt).toISOString()}`,
+  ].join('\n');
+}
+
+/** Issue a nonce for `owner` and the message to sign with it. */
+export async function createLoginChallenge(redis: Redis, owner: PublicKey, domain: string, ttlMs: number): Promise<LoginChallenge> {
+  const nonce = randomBytes(16).toString('hex');
+  const now = Date.now();
+  const challenge: LoginChallenge = {
+    owner: owner.toBase58(),
+    nonce,
+    message: loginMessage(domain, owner.toBase58(), nonce, now, now + ttlMs),
+    expiresAt: now + ttlMs,
+  };
+  await redis.set(nonceKey(nonce), JSON.stringify(challenge), 'PX', ttlMs);
+  return challenge;
+}
+
+/**
+ * Check the signature of a challenge and start a session. The nonce is used up whatever
+ * the outcome, so a failed attempt needs a new one.
+ */
+export async function completeLogin(
+  redis: Redis,
+  input: { owner: PublicKey; nonce: string; signature: string },
+  sessionTtlMs: number
+): Promise<{ ok: true; token: string; session: Session } | { ok: false; err: string }> {
+  const raw = await redis.getdel(nonceKey(input.nonce));
+  if (!raw) return { ok: false, err: 'Unknown or expired nonce' };
+  const challenge = JSON.parse(raw) as LoginChallenge;
+  if (challenge.owner !== input.owner.toBase58()) return { ok: false, err: 'Nonce was issued to another wallet' };
+
+  let signature: Uint8Array;
+  try {
+    signature = bs58.decode(input.signature);
+  } catch {
+    return { ok: false, err: 'Signature must be base58' };
+  }
+  if (!verifyWalletSignature(input.owner, challenge.message, signature)) return { ok: false, err: 'Invalid signature' };
+
+  const token = randomBytes(32).toString('base64url');
+  const now = Date.now();
+  const session: Session = { owner: challenge.owner, createdAt: now, expiresAt: now + sessionTtlMs };
+  await redis.set(sessionKey(token), JSON.stringify(session), 'PX', sessionTtlMs);
+  return { ok: true, token, session };
+}
+
+export async function getSession(redis: Redis, token: string): Promise<Session | null> {
+  const raw = await redis.get(sessionKey(token));
+  return raw ? (JSON.parse(raw) as Session) : null;
+}
+
+export async function revokeSession(redis: Redis, token: string): Promise<boolean> {
+  return (await redis.del(sessionKey(token))) === 1;
+}
+
+/** The bearer token of a request, or '' without one. */
+export function bearerToken(req: MiddlewareRequest): string {
+  const header = req.get('authorization') ?? '';
+  return header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+}
+
+/**
+ * Express middleware factory: `requireOwner((req) => req.query.owner)` lets a request
+ * through only with a live session for that owner (401 without one, 403 for another
+ * owner) and sets `req.session`. With `required` false every request passes.
+ */
+export function createSessionGuard(deps: { redis: Redis; required: boolean }) {
+  const { redis, required } = deps;
+  return <Req extends MiddlewareRequest>(ownerOf: (req: Req) => unknown) => async (req: Req, res: Response, next: NextFunction) => {
+    if (!required) return next();
+    try {
+      const token = bearerToken(req);
+      const session = token ? await getSession(redis, token) : null;
+      if (!session) return fail(res, 'UNAUTHORIZED', 'Sign in first (Authorization: Bearer <session token>)');
+      if (String(ownerOf(req) ?? '') !== session.owner) return fail(res, 'FORBIDDEN', 'Session is for another wallet');
+      req.session = session;
+      next();
+    } catch (e) {
+      sendError(res, e);
+    }
+  };
+}
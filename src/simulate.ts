@@ -0,0 +1,125 @@
+/* eslint-disable no-console */
+import 'dotenv/config';
+import { promises as fs } from 'fs';
+import { parseArgs } from 'util';
+import { z } from 'zod';
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
+
+import { loadPrizeTableFile } from './prizeTable.js';
+import { simulateEconomics, SimulationConfig, SimulationReport } from './economics.js';
+
+/**
+ * Prize table economics simulator (see economics.ts).
+ *
+ *   npm run simulate -- --prizes prizes.json --nft-floor-sol 0.5 --opens-per-day 2000 \
+ *     --days 30 --runs 200 --start-balance-sol 50 [--token-price-sol <mint>=<SOL per token>] [--json] [--out report.json]
+ *
+ * Defaults come from the environment (.env) like the server: PRIZE_TABLE_PATH and OPEN_FEE_LAMPORTS.
+ */
+
+// A SOL amount given on the command line, in lamports
+const sol = (amount: string, ctx: z.RefinementCtx) => {
+  const n = Number(amount);
+  if (!Number.isFinite(n) || n < 0) ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be a non-negative number' });
+  return Math.round(n * LAMPORTS_PER_SOL);
+};
+
+const ArgsSchema = z.object({
+  prizes: z.string().min(1).default(process.env.PRIZE_TABLE_PATH || 'prizes.json'),
+  'fee-lamports': z.coerce.number().int().nonnegative().default(Number(process.env.OPEN_FEE_LAMPORTS) || 1_000_000),
+  'nft-floor-sol': z.string().default('0').transform(sol),
+  // <mint>=<SOL per whole token>, repeatable
+  'token-price-sol': z.array(z.string()).default([]).transform((pairs, ctx) => {
+    const prices: Record<string, number> = {};
+    for (const pair of pairs) {
+      const [mint, price] = pair.split('=');
+      if (!mint || price === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Expected <mint>=<SOL per token>, got '${pair}'` });
+        continue;
+      }
+      prices[mint] = sol(price, ctx);
+    }
+    return prices;
+  }),
+  'opens-per-day': z.coerce.number().int().positive().default(1000),
+  days: z.coerce.number().int().positive().default(30),
+  runs: z.coerce.number().int().positive().default(100),
+  'start-balance-sol': z.string().default('0').transform(sol),
+  seed: z.coerce.number().int().nonnegative().default(1),
+  json: z.boolean().default(false),
+  out: z.string().min(1).optional(),
+});
+
+function parseCliArgs() {
+  const { values } = parseArgs({
+    options: {
+      prizes: { type: 'string' },
+      'fee-lamports': { type: 'string' },
+      'nft-floor-sol': { type: 'string' },
+      'token-price-sol': { type: 'string', multiple: true },
+      'opens-per-day': { type: 'string' },
+      days: { type: 'string' },
+      runs: { type: 'string' },
+      'start-balance-sol': { type: 'string' },
+      seed: { type: 'string' },
+      json: { type: 'boolean' },
+      out: { type: 'string' },
+    },
+  });
+  return ArgsSchema.parse(values);
+}
+
+const pct = (x: number) => `${(x * 100).toFixed(4)}%`;
+const num = (x: number) => x.toFixed(6);
+
+function printReport(report: SimulationReport, meta: { prizes: string; version: string; warnings: string[] }) {
+  console.log(`Prize table ${meta.prizes} (version ${meta.version})`);
+  for (const w of meta.warnings) console.log(`  warning: ${w}`);
+  console.log(`${report.opens.toLocaleString('en-US')} simulated opens\n`);
+  console.table(report.prizes.map((p) => ({
+    prize: p.label,
+    kind: p.kind,
+    'value (SOL)': num(p.valueSOL),
+    probability: pct(p.probability),
+    simulated: pct(p.frequency),
+  })));
+  console.table({
+    'fee (SOL)': num(report.feeSOL),
+    'expected value per open (SOL)': num(report.expectedValueSOL),
+    'simulated value per open (SOL)': num(report.simulatedValueSOL),
+    'house edge': pct(report.houseEdge),
+    'win probability': pct(report.winProbability),
+    'std dev per open (SOL)': num(report.stdDevSOL),
+    'variance per open (SOL²)': num(report.varianceSOL2),
+  });
+  console.table({
+    'drawdown (SOL)': report.drawdownSOL,
+    'net result (SOL)': report.netSOL,
+  });
+  console.log(`Insolvency probability from ${report.startBalanceSOL} SOL: ${pct(report.insolvencyProbability)}`);
+}
+
+async function main() {
+  const args = parseCliArgs();
+  const { table, warnings } = await loadPrizeTableFile(args.prizes);
+  const config: SimulationConfig = {
+    feeLamports: args['fee-lamports'],
+    values: { nftFloorLamports: args['nft-floor-sol'], tokenPriceLamports: args['token-price-sol'] },
+    opensPerDay: args['opens-per-day'],
+    days: args.days,
+    runs: args.runs,
+    startBalanceLamports: args['start-balance-sol'],
+    seed: args.seed,
+  };
+  const report = simulateEconomics(table.prizes, config);
+  const output = { prizes: args.prizes, version: table.version, warnings, config, report };
+
+  if (args.out) await fs.writeFile(args.out, JSON.stringify(output, null, 2) + '\n');
+  if (args.json) console.log(JSON.stringify(output, null, 2));
+  else printReport(report, { prizes: args.prizes, version: table.version, warnings });
+}
+
+main().catch((e) => {
+  console.error(e?.message || e);
+  process.exit(1);
+});
@@ -0,0 +1,236 @@
+import { PublicKey } from '@solana/web3.js';
+import Redis from 'ioredis';
+
+import { PrizeKind, Weighted } from './rewards.js';
+import { utcDay } from './utils.js';
+import { ChainGateway } from './chain.js';
+
+/**
+ * Treasury solvency and daily payout budgets.
+ *
+ * Before a roll, the treasury balance minus SOL already owed to queued payouts must cover
+ * the largest SOL prize in the table, and each per-kind daily budget must have room for
+ * that kind's largest prize. After a roll the prize's SOL is added to the pending payouts
+ * and its share of each budget reserved in one script, so parallel opens can't both pass
+ * the balance check; a prize that no longer fits is downgraded. A payout that fails gives
+ * its share of the budget back.
+ */
+
+export type BudgetKind = 'SOL' | 'NFT' | 'TOKEN';
+
+export type SolvencyConfig = {
+  // Per UTC day: lamports for SOL, number of prizes for NFT and TOKEN. 0 = unlimited.
+  budgets: Record<BudgetKind, number>;
+  mode: 'pause' | 'downgrade';
+  // Label of a prize in the table to give instead, or NOTHING
+  downgradeTo: string;
+  lowBalanceLamports: number;
+};
+
+const BUDGET_KINDS: BudgetKind[] = ['SOL', 'NFT', 'TOKEN'];
+const PENDING_LAMPORTS_KEY = 'payouts:pending:lamports';
+const BUDGET_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+// KEYS = budget keys (SOL first)..., pending lamports key, reservation key; ARGV = limits..., ttl,
+// treasury lamports, then the usage (one amount per budget) of each candidate in order.
+// Reserves the first candidate that fits the treasury and every budget, all or nothing, and
+// returns its 1-based index (0 = none). The result is kept on the reservation key, so
+// running it again for the same payment returns it without reserving twice.
+const RESERVE_PAYOUT_LUA = `
+local done = redis.call('GET', KEYS[#KEYS])
+if done then return tonumber(done) end
+local n = #KEYS - 2
+local ttl = ARGV[n + 1]
+local available = tonumber(ARGV[n + 2]) - tonumber(redis.call('GET', KEYS[n + 1]) or '0')
+local chosen = 0
+for c = 0, (#ARGV - n - 2) / n - 1 do
+  local base = n + 2 + c * n
+  local fits = true
+  for i = 1, n do
+    local limit = tonumber(ARGV[i])
+    local amount = tonumber(ARGV[base + i])
+    if i == 1 and amount > available then fits = false end
+    if fits and limit > 0 and amount > 0 then
+      local used = tonumber(redis.call('GET', KEYS[i]) or '0')
+      if used + amount > limit then fits = false end
+    end
+  end
+  if fits then
+    for i = 1, n do
+      local amount = tonumber(ARGV[base + i])
+      if amount > 0 then
+        redis.call('INCRBY', KEYS[i], amount)
+        redis.call('EXPIRE', KEYS[i], ttl)
+      end
+    end
+    redis.call('INCRBY', KEYS[n + 1], ARGV[base + 1])
+    chosen = c + 1
+    break
+  end
+end
+redis.call('SET', KEYS[#KEYS], chosen, 'EX', ttl)
+return chosen
+`;
+
+function budgetKey(day: string, kind: BudgetKind) {
+  return `budget:${day}:${kind}`;
+}
+function reservationKey(paymentSignature: string) {
+  return `payout:limits:${paymentSignature}`;
+}
+
+/** What a prize consumes from each budget: lamports for SOL, a count for NFT and TOKEN. */
+export function prizeUsage(prize: PrizeKind): Record<BudgetKind, number> {
+  const usage: Record<BudgetKind, number> = { SOL: 0, NFT: 0, TOKEN: 0 };
+  const add = (p: PrizeKind) => {
+    if (p.kind === 'SOL') usage.SOL += p.lamports;
+    else if (p.kind === 'NFT') usage.NFT += 1;
+    else if (p.kind === 'TOKEN') usage.TOKEN += 1;
+    else if (p.kind === 'BUNDLE') p.items.forEach(add);
+  };
+  add(prize);
+  return usage;
+}
+
+export async function getPendingPayoutLamports(redis: Redis): Promise<number> {
+  return Number((await redis.get(PENDING_LAMPORTS_KEY)) || 0);
+}
+
+/** Track SOL owed to queued payouts (positive when queued, negative once settled). */
+export async function addPendingPayoutLamports(redis: Redis, delta: number) {
+  if (delta !== 0) await redis.incrby(PENDING_LAMPORTS_KEY, delta);
+}
+
+/**
+ * Give a prize's share of the `day` budgets back (`sign` -1), e.g. when its payout failed,
+ * or take it again (+1) when the payout is retried. Doesn't check the limits.
+ */
+export async function addPrizeBudgetUsage(redis: Redis, day: string, prize: PrizeKind, sign: 1 | -1) {
+  const usage = prizeUsage(prize);
+  const multi = redis.multi();
+  for (const kind of BUDGET_KINDS) {
+    if (usage[kind] > 0) multi.incrby(budgetKey(day, kind), sign * usage[kind]).expire(budgetKey(day, kind), BUDGET_TTL_SECONDS);
+  }
+  await multi.exec();
+}
+
+export async function getBudgetStatus(redis: Redis, cfg: SolvencyConfig) {
+  const day = utcDay();
+  const used = await redis.mget(BUDGET_KINDS.map((k) => budgetKey(day, k)));
+  const budgets = Object.fromEntries(BUDGET_KINDS.map((kind, i) => {
+    const budget = cfg.budgets[kind];
+    const spent = Number(used[i] || 0);
+    return [kind, { budget: budget || null, used: spent, remaining: budget ? Math.max(0, budget - spent) : null }];
+  })) as Record<BudgetKind, { budget: number | null; used: number; remaining: number | null }>;
+  return { day, budgets };
+}
+
+/** Largest amount any single prize in the table takes from each budget. */
+function maxUsage(prizes: Weighted<PrizeKind>[]): Record<BudgetKind, number> {
+  const max: Record<BudgetKind, number> = { SOL: 0, NFT: 0, TOKEN: 0 };
+  for (const { weight, item } of prizes) {
+    if (weight <= 0) continue;
+    const usage = prizeUsage(item);
+    for (const k of BUDGET_KINDS) max[k] = Math.max(max[k], usage[k]);
+  }
+  return max;
+}
+
+async function getAvailableLamports(chain: ChainGateway, redis: Redis, treasury: PublicKey) {
+  const [balance, pending] = await Promise.all([chain.getBalance(treasury), getPendingPayoutLamports(redis)]);
+  return { balance, pending, available: balance - pending };
+}
+
+/**
+ * Pre-roll check. In `pause` mode, fails with a reason when the treasury can't cover the
+ * largest SOL prize or a daily budget can't fit its kind's largest prize. In `downgrade`
+ * mode opening always continues and `applyPayoutLimits` handles it after the roll.
+ */
+export async function checkOpenAllowed(
+  chain: ChainGateway,
+  redis: Redis,
+  treasury: PublicKey,
+  prizes: Weighted<PrizeKind>[],
+  cfg: SolvencyConfig
+): Promise<{ ok: true } | { ok: false; reason: string }> {
+  if (cfg.mode === 'downgrade') return { ok: true };
+  const max = maxUsage(prizes);
+  const { available } = await getAvailableLamports(chain, redis, treasury);
+  if (available < max.SOL) {
+    return { ok: false, reason: 'Treasury balance is too low to cover the largest prize' };
+  }
+  const { budgets } = await getBudgetStatus(redis, cfg);
+  for (const kind of BUDGET_KINDS) {
+    const remaining = budgets[kind].remaining;
+    if (remaining !== null && max[kind] > 0 && remaining < max[kind]) {
+      return { ok: false, reason: `Daily ${kind} payout budget reached` };
+    }
+  }
+  return { ok: true };
+}
+
+/**
+ * Post-roll: reserve the prize of payment `paymentSignature` against the daily budgets and
+ * the treasury, which counts its SOL as owed to a pending payout. If it doesn't fit, fall
+ * back to the configured downgrade prize, then to NOTHING. `budgetDay` is set when a prize
+ * was reserved: create its payout with `reserved` so the SOL isn't counted twice.
+ * Calling it again for the same payment returns the same choice without reserving again.
+ */
+export async function applyPayoutLimits(
+  chain: ChainGateway,
+  redis: Redis,
+  treasury: PublicKey,
+  paymentSignature: string,
+  prize: PrizeKind,
+  prizes: Weighted<PrizeKind>[],
+  cfg: SolvencyConfig
+): Promise<{ prize: PrizeKind; downgradedFrom?: PrizeKind; budgetDay?: string }> {
+  if (prize.kind === 'NOTHING') return { prize };
+
+  const fallback = prizes.map((p) => p.item).find((p) => p.kind !== 'NOTHING' && p.label === cfg.downgradeTo);
+  const candidates = fallback && fallback !== prize ? [prize, fallback] : [prize];
+  const usages = candidates.map(prizeUsage);
+  const balance = usages.some((u) => u.SOL > 0) ? await chain.getBalance(treasury) : 0;
+
+  const day = utcDay();
+  const chosen = Number(await redis.eval(
+    RESERVE_PAYOUT_LUA,
+    BUDGET_KINDS.length + 2,
+    ...BUDGET_KINDS.map((k) => budgetKey(day, k)),
+    PENDING_LAMPORTS_KEY,
+    reservationKey(paymentSignature),
+    ...BUDGET_KINDS.map((k) => cfg.budgets[k]),
+    BUDGET_TTL_SECONDS,
+    balance,
+    ...usages.flatMap((u) => BUDGET_KINDS.map((k) => u[k]))
+  ));
+
+  if (chosen === 0) return { prize: { kind: 'NOTHING' }, downgradedFrom: prize };
+  const candidate = candidates[chosen - 1];
+  return candidate === prize ? { prize, budgetDay: day } : { prize: candidate, downgradedFrom: prize, budgetDay: day };
+}
+
+/** Balance, pending liabilities, budgets and the low-balance warning for /health. */
+export async function getSolvencyReport(
+  chain: ChainGateway,
+  redis: Redis,
+  treasury: PublicKey,
+  prizes: Weighted<PrizeKind>[],
+  cfg: SolvencyConfig
+) {
+  const { balance, pending, available } = await getAvailableLamports(chain, redis, treasury);
+  const max = maxUsage(prizes);
+  const { day, budgets } = await getBudgetStatus(redis, cfg);
+  return {
+    balanceLamports: balance,
+    pendingPayoutLamports: pending,
+    availableLamports: available,
+    largestPrizeLamports: max.SOL,
+    solvent: available >= max.SOL,
+    lowBalance: balance < cfg.lowBalanceLamports,
+    lowBalanceThresholdLamports: cfg.lowBalanceLamports,
+    mode: cfg.mode,
+    day,
+    budgets,
+  };
+}
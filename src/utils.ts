@@ -1,45 +1,40 @@
-import { promises as fs } from "fs";
-import path from "path";
-import { fileURLToPath } from "url";
+import { createPublicKey, verify } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
 
-// __dirname workaround in ESM
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+// DER prefix of an Ed25519 SubjectPublicKeyInfo; the 32 raw key bytes follow
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
 
-const logFile = path.join(__dirname, "prize_log.txt");
-const countFile = path.join(__dirname, "log_count.txt");
-
-// read last count from file
-async function getLastCount() {
-  try {
-    const data = await fs.readFile(countFile, "utf8");
-    return parseInt(data, 10) || 0;
-  } catch {
-    return 0; // file doesn't exist yet
-  }
+/** Convert a UI amount (e.g. 12.5 tokens) to raw base units for a mint with `decimals`. */
+export function uiToRawAmount(uiAmount: number, decimals: number): bigint {
+  const [whole, frac = ''] = uiAmount.toFixed(decimals).split('.');
+  return BigInt(whole) * 10n ** BigInt(decimals) + BigInt(frac || '0');
 }
 
-// save current count to file
-async function saveCount(count: number) {
-  await fs.writeFile(countFile, count.toString(), "utf8");
+/** Convert raw base units back to a UI amount string (e.g. "12.5"), without float rounding. */
+export function rawToUiAmountString(raw: bigint, decimals: number): string {
+  const digits = raw.toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const frac = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return frac ? `${whole}.${frac}` : whole;
 }
 
-// log function
-export async function logPrize(prize: any) {
-  let logCount = await getLastCount();
-  logCount++;
-
-  const time = new Date().toISOString();
-  const logLine = `[${logCount}] ${time} | prize: ${JSON.stringify(prize)}\n`;
-
-  await fs.appendFile(logFile, logLine, "utf8");
-  await saveCount(logCount);
+/** UTC calendar day of a timestamp, as YYYY-MM-DD. */
+export function utcDay(now = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
 
-  console.log(logLine.trim());
+/** Shorten a wallet address for public feeds, e.g. "5yZD…cFE". */
+export function maskOwner(owner: string): string {
+  return owner.length > 8 ? `${owner.slice(0, 4)}…${owner.slice(-4)}` : owner;
 }
 
-// --- Example usage ---
-(async () => {
-  await logPrize({ kind: "NFT", label: "Elementals NFT" });
-  await logPrize({ kind: "SOL", lamports: 0.5 * 1e9, label: "0.5 SOL" });
-})();
+/** Whether `signature` is `wallet`'s ed25519 signature of `message` (as wallets' signMessage produce). */
+export function verifyWalletSignature(wallet: PublicKey, message: string | Uint8Array, signature: Uint8Array): boolean {
+  if (signature.length !== 64) return false;
+  const key = createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, wallet.toBuffer()]),
+    format: 'der',
+    type: 'spki',
+  });
+  return verify(null, typeof message === 'string' ? Buffer.from(message, 'utf8') : message, key, signature);
+}
@@ -0,0 +1,247 @@
+/* eslint-disable no-console */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHmac } from 'crypto';
+import { z } from 'zod';
+import YAML from 'yaml';
+import Redis from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Signed webhooks.
+ *
+ * Emitting an event writes one delivery per subscribed endpoint to a Redis outbox, the
+ * same way payouts are queued; a worker POSTs them and retries with exponential backoff.
+ * Deliveries that still fail after `maxAttempts` go to a capped dead-letter list, from
+ * which an admin can requeue them.
+ *
+ * Each request body is the event as JSON, signed with the endpoint's secret:
+ * `x-webhook-signature: sha256=<hex HMAC-SHA256(secret, "<timestamp>.<body>")>`, with the
+ * timestamp (ms) in `x-webhook-timestamp`, so receivers can reject replays.
+ */
+
+export const WEBHOOK_EVENT_TYPES = [
+  'box.opened',
+  'prize.won',
+  'payout.confirmed',
+  'payout.failed',
+  'refund.confirmed',
+  'refund.failed',
+  'inventory.low',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+const EndpointSchema = z.object({
+  id: z.string().min(1),
+  url: z.string().url(),
+  secret: z.string().min(16),
+  // Event types to send; every type when omitted or ["*"]
+  events: z.array(z.union([z.enum(WEBHOOK_EVENT_TYPES), z.literal('*')])).min(1).optional(),
+}).strict();
+
+export const WebhookConfigSchema = z.object({
+  endpoints: z.array(EndpointSchema),
+}).strict().superRefine((c, ctx) => {
+  const seen = new Set<string>();
+  c.endpoints.forEach((e, i) => {
+    if (seen.has(e.id)) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endpoints', i, 'id'], message: `Duplicate endpoint '${e.id}'` });
+    seen.add(e.id);
+  });
+});
+
+export type WebhookEndpoint = z.infer<typeof EndpointSchema>;
+
+export type WebhookEvent = {
+  id: string;
+  type: WebhookEventType;
+  createdAt: number;
+  data: Record<string, unknown>;
+};
+
+export type WebhookDelivery = {
+  id: string;
+  endpoint: string;
+  event: WebhookEvent;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  deadAt?: number;
+};
+
+const QUEUE_KEY = 'webhooks:queue';
+const DEAD_KEY = 'webhooks:dead';
+const DEAD_KEEP = 1000;
+const LOCK_MS = 60_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+
+function deliveryKey(id: string) {
+  return `webhook:delivery:${id}`;
+}
+function deliveryLockKey(id: string) {
+  return `webhook:delivery:${id}:lock`;
+}
+
+/** Load endpoints from `file` (JSON or YAML). No file means no webhooks; an invalid file throws. */
+export async function loadWebhookConfig(file: string): Promise<WebhookEndpoint[]> {
+  let text: string;
+  try {
+    text = await fs.readFile(file, 'utf8');
+  } catch (e: any) {
+    if (e?.code !== 'ENOENT') throw e;
+    return [];
+  }
+  const ext = path.extname(file).toLowerCase();
+  const raw = ext === '.yaml' || ext === '.yml' ? YAML.parse(text) : JSON.parse(text);
+  return WebhookConfigSchema.parse(raw).endpoints;
+}
+
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+function subscribes(endpoint: WebhookEndpoint, type: WebhookEventType) {
+  return !endpoint.events || endpoint.events.includes('*') || endpoint.events.includes(type);
+}
+
+export type Webhooks = {
+  endpoints: WebhookEndpoint[];
+  /** Queue `type` for every subscribed endpoint. Never throws: a failure to queue is only logged. */
+  emit(type: WebhookEventType, data: Record<string, unknown>): Promise<void>;
+  /** Attempt every delivery that is due. */
+  processDue(batchSize?: number): Promise<void>;
+  listDeadLetters(limit?: number): Promise<WebhookDelivery[]>;
+  /** Move a dead letter back to the queue with a fresh attempt count. False if it isn't there. */
+  retryDeadLetter(id: string): Promise<boolean>;
+  queueSize(): Promise<number>;
+};
+
+export function createWebhooks(deps: {
+  redis: Redis;
+  endpoints: WebhookEndpoint[];
+  maxAttempts: number;
+  retryBaseMs: number;
+}): Webhooks {
+  const { redis, endpoints, maxAttempts, retryBaseMs } = deps;
+  const byId = new Map(endpoints.map((e) => [e.id, e]));
+
+  async function save(delivery: WebhookDelivery) {
+    await redis.set(deliveryKey(delivery.id), JSON.stringify(delivery));
+    await redis.zadd(QUEUE_KEY, delivery.nextAttemptAt, delivery.id);
+  }
+
+  async function deadLetter(delivery: WebhookDelivery) {
+    delivery.deadAt = Date.now();
+    await redis.multi()
+      .lpush(DEAD_KEY, JSON.stringify(delivery))
+      .ltrim(DEAD_KEY, 0, DEAD_KEEP - 1)
+      .zrem(QUEUE_KEY, delivery.id)
+      .del(deliveryKey(delivery.id))
+      .exec();
+    console.error(`[webhooks] ${delivery.event.type} to ${delivery.endpoint} dead-lettered: ${delivery.lastError}`);
+  }
+
+  async function send(endpoint: WebhookEndpoint, event: WebhookEvent) {
+    const body = JSON.stringify(event);
+    const timestamp = Date.now();
+    const res = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-webhook-id': event.id,
+        'x-webhook-event': event.type,
+        'x-webhook-timestamp': String(timestamp),
+        'x-webhook-signature': signWebhook(endpoint.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  }
+
+  async function attempt(id: string) {
+    const locked = await redis.set(deliveryLockKey(id), '1', 'PX', LOCK_MS, 'NX');
+    if (!locked) return;
+    try {
+      const raw = await redis.get(deliveryKey(id));
+      if (!raw) {
+        await redis.zrem(QUEUE_KEY, id);
+        return;
+      }
+      const delivery = JSON.parse(raw) as WebhookDelivery;
+      const endpoint = byId.get(delivery.endpoint);
+      delivery.attempts += 1;
+      try {
+        if (!endpoint) throw new Error(`Endpoint ${delivery.endpoint} is no longer configured`);
+        await send(endpoint, delivery.event);
+        await redis.multi().zrem(QUEUE_KEY, id).del(deliveryKey(id)).exec();
+      } catch (e: any) {
+        delivery.lastError = e?.message || String(e);
+        if (!endpoint || delivery.attempts >= maxAttempts) {
+          await deadLetter(delivery);
+        } else {
+          delivery.nextAttemptAt = Date.now() + Math.min(retryBaseMs * 2 ** (delivery.attempts - 1), MAX_BACKOFF_MS);
+          await save(delivery);
+        }
+      }
+    } finally {
+      await redis.del(deliveryLockKey(id));
+    }
+  }
+
+  return {
+    endpoints,
+    async emit(type, data) {
+      const targets = endpoints.filter((e) => subscribes(e, type));
+      if (targets.length === 0) return;
+      const event: WebhookEvent = { id: uuidv4(), type, createdAt: Date.now(), data };
+      try {
+        for (const endpoint of targets) {
+          const delivery: WebhookDelivery = { id: uuidv4(), endpoint: endpoint.id, event, attempts: 0, nextAttemptAt: Date.now() };
+          await save(delivery);
+          // First attempt right away; the worker picks up retries
+          attempt(delivery.id).catch((e) => console.error(`[webhooks] Delivery ${delivery.id} failed:`, e));
+        }
+      } catch (e) {
+        console.error(`[webhooks] Queueing ${type} failed:`, e);
+      }
+    },
+    async processDue(batchSize = 20) {
+      const ids = await redis.zrangebyscore(QUEUE_KEY, 0, Date.now(), 'LIMIT', 0, batchSize);
+      for (const id of ids) {
+        await attempt(id);
+      }
+    },
+    async listDeadLetters(limit = 50) {
+      const raw = await redis.lrange(DEAD_KEY, 0, limit - 1);
+      return raw.map((r) => JSON.parse(r) as WebhookDelivery);
+    },
+    async retryDeadLetter(id) {
+      const raw = await redis.lrange(DEAD_KEY, 0, -1);
+      const entry = raw.find((r) => (JSON.parse(r) as WebhookDelivery).id === id);
+      if (!entry || !(await redis.lrem(DEAD_KEY, 1, entry))) return false;
+      const delivery = JSON.parse(entry) as WebhookDelivery;
+      await save({ ...delivery, attempts: 0, nextAttemptAt: Date.now(), deadAt: undefined });
+      return true;
+    },
+    queueSize: () => redis.zcard(QUEUE_KEY),
+  };
+}
+
+/** Poll the webhook outbox on an interval. Returns a function that stops the worker. */
+export function startWebhookWorker(webhooks: Webhooks, intervalMs: number): () => void {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await webhooks.processDue();
+    } catch (e) {
+      console.error('Webhook worker error:', e);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  return () => clearInterval(timer);
+}
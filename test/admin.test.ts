@@ -0,0 +1,43 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair } from '@solana/web3.js';
+
+import { Sandbox, startSandbox } from './sandbox.js';
+
+const ADMIN_KEY = 'sandbox-admin-key-0123456789';
+const admin = { 'x-admin-key': ADMIN_KEY };
+
+describe('admin API (sandbox)', () => {
+  let sandbox: Sandbox;
+
+  before(async () => {
+    sandbox = await startSandbox({ env: { ADMIN_API_KEY: ADMIN_KEY } });
+  });
+  after(() => sandbox?.stop());
+
+  it('refuses requests without a valid admin key', async () => {
+    const missing = await sandbox.get('/admin/audit');
+    assert.equal(missing.status, 401);
+    assert.equal(missing.body.code, 'UNAUTHORIZED');
+    const wrong = await sandbox.post('/admin/pause', { reason: 'test' }, { 'x-admin-key': 'not-the-admin-key-000000' });
+    assert.equal(wrong.status, 401);
+    assert.equal(wrong.body.code, 'UNAUTHORIZED');
+  });
+
+  it('writes mutating requests to the audit log, refused ones too', async () => {
+    const owner = Keypair.generate().publicKey.toBase58();
+    const refused = await sandbox.post(`/admin/wallets/${owner}/reset-cooldown`, {});
+    assert.equal(refused.status, 401);
+    const invalid = await sandbox.post('/admin/wallets/nope/reset-cooldown', {}, admin);
+    assert.equal(invalid.status, 400);
+    const reset = await sandbox.post(`/admin/wallets/${owner}/reset-cooldown`, {}, admin);
+    assert.equal(reset.status, 200, JSON.stringify(reset.body));
+
+    const { body } = await sandbox.get('/admin/audit?limit=3', admin);
+    assert.deepEqual(body.entries.map(({ actor, action, params, status }: Record<string, unknown>) => ({ actor, action, params, status })), [
+      { actor: 'key:default', action: 'POST /admin/wallets/:owner/reset-cooldown', params: { owner }, status: 200 },
+      { actor: 'key:default', action: 'POST /admin/wallets/:owner/reset-cooldown', params: { owner: 'nope' }, status: 400 },
+      { actor: null, action: `POST /admin/wallets/${owner}/reset-cooldown`, params: {}, status: 401 },
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair } from '@solana/web3.js';
+import Redis from 'ioredis';
+
+import { createCredit, getCredit, markCreditSpent, recoverSpendingCredits, takeCreditForOpen } from '../src/credits.js';
+import { createMemoryRedis } from '../src/sandbox.js';
+
+describe('credits stuck in spending', () => {
+  const owner = Keypair.generate().publicKey;
+  let redis: Redis;
+
+  const credit = (id: string) => createCredit(redis, {
+    id, owner: owner.toBase58(), intentId: 'intent', clientSeed: 'seed', reason: 'test',
+    payment: { currency: 'SOL', amount: '1000000' },
+  });
+
+  beforeEach(async () => {
+    // ioredis-mock instances share their data
+    redis = await createMemoryRedis();
+    await redis.flushall();
+  });
+
+  it('gives back a credit whose open never rolled', async () => {
+    await credit('sig-stuck');
+    assert.ok(await takeCreditForOpen(redis, 'sig-stuck', owner));
+
+    // Not stale yet
+    assert.deepEqual(await recoverSpendingCredits(redis, 60_000, async () => false), []);
+
+    const restored = await recoverSpendingCredits(redis, 0, async () => false);
+    assert.deepEqual(restored.map((c) => c.id), ['sig-stuck']);
+    assert.equal((await getCredit(redis, 'sig-stuck'))?.status, 'available');
+    assert.ok(await takeCreditForOpen(redis, 'sig-stuck', owner));
+  });
+
+  it('leaves a credit whose open rolled to that open', async () => {
+    await credit('sig-rolled');
+    await takeCreditForOpen(redis, 'sig-rolled', owner);
+
+    assert.deepEqual(await recoverSpendingCredits(redis, 0, async (id) => id === 'sig-rolled'), []);
+    assert.equal((await getCredit(redis, 'sig-rolled'))?.status, 'spending');
+
+    // Once spent, it is no longer a candidate
+    assert.ok(await markCreditSpent(redis, 'sig-rolled'));
+    assert.deepEqual(await recoverSpendingCredits(redis, 0, async () => false), []);
+    assert.equal((await getCredit(redis, 'sig-rolled'))?.status, 'spent');
+  });
+});
@@ -0,0 +1,49 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair } from '@solana/web3.js';
+import Redis from 'ioredis';
+
+import { OwnedAsset } from '../src/assets.js';
+import { createEligibilityService, EligibilityService } from '../src/eligibility.js';
+import { createMemoryChain, createMemoryRedis, SandboxSeedSchema } from '../src/sandbox.js';
+
+const NFT: OwnedAsset = {
+  id: Keypair.generate().publicKey.toBase58(), standard: 'nft', collection: null, collectionVerified: false, symbol: 'ELMNT',
+};
+
+describe('eligibility cache', () => {
+  const owner = Keypair.generate().publicKey;
+  let redis: Redis;
+  let owned: OwnedAsset[];
+  let service: EligibilityService;
+
+  beforeEach(async () => {
+    // ioredis-mock instances share their data
+    redis = await createMemoryRedis();
+    await redis.flushall();
+    owned = [NFT];
+    const chain = createMemoryChain({ seed: SandboxSeedSchema.parse({}), treasury: owner, standards: ['nft'] });
+    service = createEligibilityService({
+      chain: { ...chain, assets: { ...chain.assets, listOwned: async () => owned } },
+      redis,
+      collections: ['Elementals'],
+      mints: [],
+      cacheTtlMs: 60_000,
+    });
+  });
+
+  it('answers from the cache until asked for fresh holdings', async () => {
+    assert.equal((await service.check(owner)).collections[0].count, 1);
+    owned = []; // moved away
+
+    const cached = await service.check(owner);
+    assert.equal(cached.cached, true);
+    assert.equal(cached.collections[0].count, 1);
+
+    const fresh = await service.check(owner, { fresh: true });
+    assert.equal(fresh.cached, false);
+    assert.equal(fresh.collections[0].count, 0);
+    // The fresh result replaces the cached one
+    assert.equal((await service.check(owner)).collections[0].count, 0);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { z } from 'zod';
+
+import { validate } from '../src/http.js';
+
+const CountRoute = { response: z.object({ ok: z.literal(true), count: z.number() }) };
+
+// Answers GET /count with a body that doesn't match CountRoute
+async function getMismatched(strict: boolean) {
+  const app = express();
+  app.set('strict responses', strict);
+  app.get('/count', validate(CountRoute), (_req, res) => { res.json({ ok: true, count: 'three' }); });
+  const server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  try {
+    const res = await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/count`);
+    return { status: res.status, body: await res.json() };
+  } finally {
+    server.close();
+  }
+}
+
+describe('response checks', () => {
+  it('still sends a response that does not match its schema', async () => {
+    assert.deepEqual(await getMismatched(false), { status: 200, body: { ok: true, count: 'three' } });
+  });
+
+  it('answers it with INTERNAL_ERROR under strict responses', async () => {
+    const { status, body } = await getMismatched(true);
+    assert.equal(status, 500);
+    assert.equal(body.code, 'INTERNAL_ERROR');
+  });
+});
@@ -0,0 +1,116 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair } from '@solana/web3.js';
+import Redis from 'ioredis';
+
+import { claimSignature, releaseOpen, releaseSignature, reserveOpen } from '../src/limits.js';
+import { createMemoryRedis } from '../src/sandbox.js';
+import { newHolder, pay, Sandbox, startSandbox } from './sandbox.js';
+
+const WINDOW_MS = 60_000;
+
+describe('open accounting', () => {
+  let redis: Redis;
+
+  before(async () => {
+    redis = await createMemoryRedis();
+  });
+  after(() => redis?.quit());
+
+  it('lets exactly one of many parallel claims take a signature', async () => {
+    const claims = await Promise.all(Array.from({ length: 10 }, () => claimSignature(redis, 'sig-parallel')));
+    assert.equal(claims.filter(Boolean).length, 1);
+
+    await releaseSignature(redis, 'sig-parallel');
+    assert.equal(await claimSignature(redis, 'sig-parallel'), true);
+  });
+
+  it('reserves no more opens than the limit under parallel calls', async () => {
+    const owner = Keypair.generate().publicKey;
+    const results = await Promise.all(
+      Array.from({ length: 10 }, (_, i) => reserveOpen(redis, owner, 3, WINDOW_MS, `reservation-${i}`))
+    );
+    const reserved = results.filter((r) => r.reserved);
+    assert.equal(reserved.length, 3);
+    assert.ok(results.every((r) => r.used <= 3));
+
+    // A released reservation frees its slot, and only that one
+    const freed = results.findIndex((r) => r.reserved);
+    await releaseOpen(redis, owner, `reservation-${freed}`);
+    const retried = await Promise.all(
+      Array.from({ length: 5 }, (_, i) => reserveOpen(redis, owner, 3, WINDOW_MS, `retry-${i}`))
+    );
+    assert.equal(retried.filter((r) => r.reserved).length, 1);
+  });
+});
+
+describe('parallel opens (sandbox)', () => {
+  let sandbox: Sandbox;
+
+  const opensUsed = async (owner: string): Promise<number> =>
+    (await sandbox.get(`/eligibility?owner=${owner}`)).body.opens.used;
+
+  before(async () => {
+    sandbox = await startSandbox();
+  });
+  after(() => sandbox?.stop());
+
+  it('opens a box once per signature', async () => {
+    const owner = await newHolder(sandbox);
+    const { signature } = await pay(sandbox, owner);
+
+    const responses = await Promise.all(Array.from({ length: 5 }, () => sandbox.post('/open', { owner, signature })));
+    assert.deepEqual(responses.map((r) => r.status).sort(), [200, 409, 409, 409, 409]);
+    assert.ok(responses.filter((r) => r.status === 409).every((r) => r.body.code === 'SIGNATURE_USED'));
+    assert.equal(await opensUsed(owner), 1);
+  });
+
+  it('opens no more boxes per wallet than the limit', async () => {
+    // Payments are prepared while the wallet still has its one open
+    const owner = await newHolder(sandbox);
+    const payments = [];
+    for (let i = 0; i < 4; i++) payments.push(await pay(sandbox, owner));
+
+    const responses = await Promise.all(payments.map(({ signature }) => sandbox.post('/open', { owner, signature })));
+    const opened = responses.filter((r) => r.status === 200);
+    const limited = responses.filter((r) => r.status === 403);
+    assert.equal(opened.length, 1);
+    assert.equal(limited.length, 3);
+    assert.ok(limited.every((r) => r.body.code === 'OPEN_LIMIT_REACHED' && r.body.credit.status === 'available'));
+    assert.equal(await opensUsed(owner), 1);
+  });
+
+  it('releases the signature and the slot when verification fails before the roll', async () => {
+    const owner = await newHolder(sandbox);
+    const other = await newHolder(sandbox);
+    const { signature } = await pay(sandbox, owner);
+
+    // Someone else's payment doesn't verify: nothing is kept, nothing is counted
+    const stolen = await sandbox.post('/open', { owner: other, signature });
+    assert.equal(stolen.status, 400);
+    assert.equal(stolen.body.code, 'PAYMENT_INVALID');
+    assert.equal(stolen.body.credit, undefined);
+    assert.equal(await opensUsed(other), 0);
+
+    // ...so the payer can still open with it
+    const opened = await sandbox.post('/open', { owner, signature });
+    assert.equal(opened.status, 200, JSON.stringify(opened.body));
+    assert.equal(await opensUsed(owner), 1);
+  });
+
+  it('keeps a verified payment claimed when the open is turned down', async () => {
+    const owner = await newHolder(sandbox);
+    const first = await pay(sandbox, owner);
+    const second = await pay(sandbox, owner);
+    assert.equal((await sandbox.post('/open', { owner, signature: first.signature })).status, 200);
+
+    const limited = await sandbox.post('/open', { owner, signature: second.signature });
+    assert.equal(limited.body.code, 'OPEN_LIMIT_REACHED');
+    // The turned-down open gave its slot back, but the signature stays claimed as a credit
+    assert.equal(await opensUsed(owner), 1);
+    const retried = await sandbox.post('/open', { owner, signature: second.signature });
+    assert.equal(retried.status, 409);
+    assert.equal(retried.body.code, 'PAYMENT_KEPT_AS_CREDIT');
+    assert.equal(retried.body.credit.id, second.signature);
+  });
+});
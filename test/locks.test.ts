@@ -0,0 +1,34 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import Redis from 'ioredis';
+
+import { acquireLock, releaseLock } from '../src/locks.js';
+import { createMemoryRedis } from '../src/sandbox.js';
+
+describe('locks', () => {
+  let redis: Redis;
+
+  beforeEach(async () => {
+    // ioredis-mock instances share their data
+    redis = await createMemoryRedis();
+    await redis.flushall();
+  });
+
+  it('is held by one caller at a time', async () => {
+    const tokens = await Promise.all([1, 2, 3].map(() => acquireLock(redis, 'lock:a', 60_000)));
+    assert.equal(tokens.filter(Boolean).length, 1);
+  });
+
+  it("doesn't release a lock taken by someone else after ours expired", async () => {
+    const stale = await acquireLock(redis, 'lock:b', 60_000);
+    assert.ok(stale);
+    await redis.del('lock:b'); // expired
+    const current = await acquireLock(redis, 'lock:b', 60_000);
+    assert.ok(current);
+
+    assert.equal(await releaseLock(redis, 'lock:b', stale), false);
+    assert.equal(await acquireLock(redis, 'lock:b', 60_000), null);
+    assert.equal(await releaseLock(redis, 'lock:b', current), true);
+    assert.ok(await acquireLock(redis, 'lock:b', 60_000));
+  });
+});
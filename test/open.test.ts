@@ -0,0 +1,177 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { HOLDER, NON_HOLDER, newHolder, pay, Sandbox, startSandbox, waitFor } from './sandbox.js';
+
+const FEE_LAMPORTS = 1_000_000;
+const PRIZE_LAMPORTS = 500_000_000;
+// Short enough for the seed to be revealed during the test, long enough to span one open
+const ROTATE_HOURS = 0.001;
+
+describe('open flow (sandbox)', () => {
+  let sandbox: Sandbox;
+
+  before(async () => {
+    sandbox = await startSandbox({
+      prizes: { prizes: [{ weight: 1, item: { kind: 'SOL', lamports: PRIZE_LAMPORTS, label: '0.5 SOL' } }] },
+      env: { FAIR_SEED_ROTATE_HOURS: String(ROTATE_HOURS), OPEN_FEE_LAMPORTS: String(FEE_LAMPORTS) },
+    });
+  });
+  after(() => sandbox?.stop());
+
+  it('prepares, pays, opens, pays the prize out and verifies the roll', async () => {
+    const start = (await sandbox.get(`/sandbox/wallets/${HOLDER}`)).body.wallet.lamports;
+
+    const { signature, prepared } = await pay(sandbox, HOLDER);
+    const opened = await sandbox.post('/open', { owner: HOLDER, signature });
+    assert.equal(opened.status, 200, JSON.stringify(opened.body));
+    assert.equal(opened.body.result.kind, 'SOL');
+    assert.equal(opened.body.intentId, prepared.intentId);
+    assert.equal(opened.body.fairness.serverSeedHash, prepared.serverSeedHash);
+    assert.equal(opened.body.fairness.clientSeed, prepared.clientSeed);
+    assert.equal(opened.body.payment.amountToTreasury, String(FEE_LAMPORTS));
+    assert.equal(opened.body.payment.lamportsToTreasury, FEE_LAMPORTS);
+    assert.ok(opened.body.payout?.id);
+
+    // The payout worker sends and confirms the prize
+    const payout = await waitFor(async () => {
+      const { body } = await sandbox.get(`/payouts/${opened.body.payout.id}`);
+      return body.payout.status === 'confirmed' && body.payout;
+    });
+    assert.ok(payout.txSig);
+    const end = (await sandbox.get(`/sandbox/wallets/${HOLDER}`)).body.wallet.lamports;
+    assert.equal(end - start, PRIZE_LAMPORTS - FEE_LAMPORTS);
+
+    // Committed but not revealed yet
+    const committed = await sandbox.get(`/verify/${signature}`);
+    assert.equal(committed.status, 200);
+    assert.equal(committed.body.revealed, false);
+    assert.equal(committed.body.serverSeed, null);
+    assert.equal(committed.body.serverSeedHash, prepared.serverSeedHash);
+
+    // Once the seed rotates out, anyone can recompute the roll
+    await new Promise((resolve) => setTimeout(resolve, ROTATE_HOURS * 3600_000 + 200));
+    await sandbox.get('/fairness');
+    const revealed = await sandbox.get(`/verify/${signature}`);
+    assert.equal(revealed.body.revealed, true);
+    assert.equal(revealed.body.hashMatches, true);
+    assert.equal(revealed.body.recomputedRoll, revealed.body.roll);
+    assert.equal(revealed.body.result.kind, 'SOL');
+
+    const history = await sandbox.get(`/history?owner=${HOLDER}`);
+    assert.equal(history.body.history[0].paymentSignature, signature);
+    assert.equal(history.body.history[0].payout.status, 'confirmed');
+  });
+
+  it('refuses a payment signature that already opened a box', async () => {
+    const used = (await sandbox.get(`/history?owner=${HOLDER}`)).body.history[0].paymentSignature;
+    const reused = await sandbox.post('/open', { owner: HOLDER, signature: used });
+    assert.equal(reused.status, 409);
+    assert.equal(reused.body.code, 'SIGNATURE_USED');
+  });
+
+  it('keeps a payment over the open limit as a credit', async () => {
+    // Both payments are prepared while the wallet still has its one open
+    const owner = await newHolder(sandbox);
+    const first = await pay(sandbox, owner);
+    const second = await pay(sandbox, owner);
+    assert.equal((await sandbox.post('/open', { owner, signature: first.signature })).status, 200);
+
+    const { signature } = second;
+    const limited = await sandbox.post('/open', { owner, signature });
+    assert.equal(limited.status, 403);
+    assert.equal(limited.body.code, 'OPEN_LIMIT_REACHED');
+    assert.equal(limited.body.credit.id, signature);
+    assert.equal(limited.body.credit.status, 'available');
+  });
+
+  it('refunds a credit through the payout outbox', async () => {
+    const owner = await newHolder(sandbox);
+    const first = await pay(sandbox, owner);
+    const { signature } = await pay(sandbox, owner);
+    await sandbox.post('/open', { owner, signature: first.signature });
+    assert.equal((await sandbox.post('/open', { owner, signature })).body.code, 'OPEN_LIMIT_REACHED');
+    const before = (await sandbox.get(`/sandbox/wallets/${owner}`)).body.wallet.lamports;
+
+    const refunded = await sandbox.post('/refunds', { owner, signature });
+    assert.equal(refunded.status, 200, JSON.stringify(refunded.body));
+    assert.equal(refunded.body.credit.status, 'refunded');
+    const payout = await waitFor(async () => {
+      const { body } = await sandbox.get(`/payouts/${refunded.body.payout.id}`);
+      return body.payout.status === 'confirmed' && body.payout;
+    });
+    assert.equal(payout.type, 'refund');
+    const after = (await sandbox.get(`/sandbox/wallets/${owner}`)).body.wallet.lamports;
+    assert.equal(after - before, FEE_LAMPORTS);
+  });
+
+  it('keeps a payment whose server seed was revealed before opening as a credit', async () => {
+    const owner = await newHolder(sandbox);
+    const { signature, prepared } = await pay(sandbox, owner);
+    await new Promise((resolve) => setTimeout(resolve, ROTATE_HOURS * 3600_000 + 200));
+    await sandbox.get('/fairness');
+
+    const refused = await sandbox.post('/open', { owner, signature });
+    assert.equal(refused.status, 409);
+    assert.equal(refused.body.code, 'SEED_ROTATED');
+    assert.equal(refused.body.credit.id, signature);
+
+    // The credit rolls with the seed active now
+    const opened = await sandbox.post('/open', { owner, creditId: signature });
+    assert.equal(opened.status, 200, JSON.stringify(opened.body));
+    assert.notEqual(opened.body.fairness.serverSeedHash, prepared.serverSeedHash);
+  });
+
+  it('refuses wallets without the gate NFT or token', async () => {
+    const prepared = await sandbox.post('/prepare-payment', { owner: NON_HOLDER });
+    assert.equal(prepared.status, 403);
+    assert.equal(prepared.body.code, 'NOT_ELIGIBLE');
+  });
+
+  it('answers invalid requests with INVALID_REQUEST and the failing fields', async () => {
+    const res = await sandbox.post('/open', { owner: 'nope' });
+    assert.equal(res.status, 400);
+    assert.equal(res.body.code, 'INVALID_REQUEST');
+    assert.ok(res.body.issues.some((i: { path: string }) => i.path === 'body.owner'));
+  });
+});
+
+describe('prize NFTs running out (sandbox)', () => {
+  let sandbox: Sandbox;
+
+  before(async () => {
+    // Every prize needs an NFT, and the treasury of sandbox.example.json holds three
+    sandbox = await startSandbox({
+      prizes: { prizes: [{ weight: 1, item: { kind: 'NFT', label: 'Elemental' } }] },
+      env: { OPEN_FEE_LAMPORTS: String(FEE_LAMPORTS) },
+    });
+  });
+  after(() => sandbox?.stop());
+
+  it('pauses opening once the last prize NFT is won', async () => {
+    const late = await newHolder(sandbox);
+    const { signature } = await pay(sandbox, late);
+
+    for (let i = 0; i < 3; i++) {
+      const owner = await newHolder(sandbox);
+      const opened = await sandbox.post('/open', { owner, signature: (await pay(sandbox, owner)).signature });
+      assert.equal(opened.status, 200, JSON.stringify(opened.body));
+      await waitFor(async () => (await sandbox.get(`/payouts/${opened.body.payout.id}`)).body.payout.status === 'confirmed');
+    }
+
+    const prizes = await sandbox.get('/prizes');
+    assert.equal(prizes.status, 503);
+    assert.equal(prizes.body.code, 'OPENING_PAUSED');
+    const prepared = await sandbox.post('/prepare-payment', { owner: await newHolder(sandbox) });
+    assert.equal(prepared.body.code, 'OPENING_PAUSED');
+    const health = await sandbox.get('/health');
+    assert.equal(health.status, 503);
+    assert.equal(health.body.code, 'OPENING_PAUSED');
+
+    // A payment made before the NFTs ran out is kept as a credit
+    const refused = await sandbox.post('/open', { owner: late, signature });
+    assert.equal(refused.status, 503);
+    assert.equal(refused.body.code, 'OPENING_PAUSED');
+    assert.equal(refused.body.credit.id, signature);
+  });
+});
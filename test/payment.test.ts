@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
+
+import { buildPaymentInstructions, buildPaymentTransaction, getPaymentQuote, verifyPayment } from '../src/payment.js';
+import { createMemoryChain, SandboxSeedSchema } from '../src/sandbox.js';
+
+describe('token fee payments', () => {
+  it('pays a token-2022 fee through the token-2022 program', async () => {
+    const owner = Keypair.generate().publicKey;
+    const feeWallet = Keypair.generate().publicKey;
+    const mint = Keypair.generate().publicKey;
+    const seed = SandboxSeedSchema.parse({
+      mints: [{ address: mint.toBase58(), decimals: 6, program: 'token-2022' }],
+      wallets: [{ address: owner.toBase58(), lamports: 1_000_000_000, tokens: { [mint.toBase58()]: 100 } }],
+    });
+    const chain = createMemoryChain({ seed, treasury: feeWallet, standards: ['nft'] });
+
+    const quote = await getPaymentQuote(chain, 'TOKEN', { lamports: 0, tokenMint: mint, tokenAmount: 2.5 });
+    assert.deepEqual(quote, {
+      currency: 'TOKEN', mint: mint.toBase58(), amount: '2500000', decimals: 6, programId: TOKEN_2022_PROGRAM_ID.toBase58(),
+    });
+
+    const { txBase64 } = await buildPaymentTransaction(chain, {
+      owner,
+      instructions: buildPaymentInstructions(owner, feeWallet, quote),
+      version: 'v0',
+      computeUnitLimit: 200_000,
+      priorityFeeMicroLamports: 0,
+    });
+    const signature = chain.submit(Buffer.from(txBase64, 'base64'));
+    const loaded = await chain.loadPayment(signature);
+    assert.ok(loaded.ok);
+
+    const verified = verifyPayment(loaded.payment, owner, feeWallet, quote);
+    assert.equal(verified.ok, true, verified.err);
+    assert.equal(verified.amountToTreasury, '2500000');
+    assert.deepEqual(chain.describeWallet(feeWallet).tokens, [{ mint: mint.toBase58(), amount: '2.5' }]);
+  });
+});
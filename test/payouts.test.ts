@@ -0,0 +1,112 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair } from '@solana/web3.js';
+import Redis from 'ioredis';
+
+import { AssetLayer, OwnedAsset } from '../src/assets.js';
+import { Credit, refundPrize } from '../src/credits.js';
+import { getInventoryStatus, refreshInventory } from '../src/inventory.js';
+import { createPayout, PayoutContext, processPayout } from '../src/payouts.js';
+import { createMemoryChain, createMemoryRedis, MemoryChain, SandboxSeedSchema } from '../src/sandbox.js';
+
+const HELD = Keypair.generate().publicKey.toBase58();
+const GONE = Keypair.generate().publicKey.toBase58();
+
+const elementals = (id: string): OwnedAsset => ({ id, standard: 'nft', collection: null, collectionVerified: false, symbol: 'ELMNT' });
+
+describe('NFT payouts and the prize inventory', () => {
+  const treasury = Keypair.generate();
+  const winner = Keypair.generate().publicKey;
+  let redis: Redis;
+  let chain: MemoryChain;
+
+  // An indexer that still lists NFTs the treasury no longer holds
+  const staleIndexer = (ids: string[]): AssetLayer => ({ ...chain.assets, listOwned: async () => ids.map(elementals) });
+  const context = (maxAttempts: number): PayoutContext => ({ chain, redis, treasury, maxAttempts, retryBaseMs: 0 });
+
+  beforeEach(async () => {
+    // ioredis-mock instances share their data
+    redis = await createMemoryRedis();
+    await redis.flushall();
+    const seed = SandboxSeedSchema.parse({ treasury: { lamports: 10_000_000_000, nfts: [{ id: HELD, symbol: 'ELMNT' }] } });
+    chain = createMemoryChain({ seed, treasury: treasury.publicKey, standards: ['nft'] });
+  });
+
+  it('drops a mint the treasury no longer holds and sends another one', async () => {
+    assert.equal(await refreshInventory(redis, staleIndexer([GONE]), treasury.publicKey, 'Elementals'), 1);
+    const payout = await createPayout(redis, { owner: winner, paymentSignature: 'sig-1', prize: { kind: 'NFT', label: 'NFT' } });
+
+    const first = await processPayout(context(5), payout.id);
+    assert.equal(first?.status, 'sending');
+    assert.equal(first?.prize.kind === 'NFT' && first.prize.mint, GONE);
+
+    await refreshInventory(redis, staleIndexer([HELD, GONE]), treasury.publicKey, 'Elementals');
+    const second = await processPayout(context(5), payout.id);
+    assert.equal(second?.status, 'confirmed');
+    assert.equal(second?.prize.kind === 'NFT' && second.prize.mint, HELD);
+    assert.deepEqual(chain.describeWallet(winner).nfts.map((n) => n.id), [HELD]);
+
+    // Neither the sent mint nor the missing one comes back while the indexer lags
+    assert.equal(await refreshInventory(redis, staleIndexer([HELD, GONE]), treasury.publicKey, 'Elementals'), 0);
+  });
+
+  it("doesn't put a mint the treasury no longer holds back when the payout fails", async () => {
+    await refreshInventory(redis, staleIndexer([GONE]), treasury.publicKey, 'Elementals');
+    const payout = await createPayout(redis, { owner: winner, paymentSignature: 'sig-2', prize: { kind: 'NFT', label: 'NFT' } });
+
+    await processPayout(context(1), payout.id);
+    const failed = await processPayout(context(1), payout.id);
+    assert.equal(failed?.status, 'failed');
+
+    const status = await getInventoryStatus(redis, 0);
+    assert.equal(status.available, 0);
+    assert.deepEqual(status.reserved, []);
+    assert.equal(await refreshInventory(redis, staleIndexer([GONE]), treasury.publicKey, 'Elementals'), 0);
+  });
+});
+
+describe('token prizes', () => {
+  it('sends a token-2022 prize through the token-2022 program', async () => {
+    const treasury = Keypair.generate();
+    const winner = Keypair.generate().publicKey;
+    const mint = Keypair.generate().publicKey.toBase58();
+    const redis = await createMemoryRedis();
+    const seed = SandboxSeedSchema.parse({
+      mints: [{ address: mint, decimals: 6, program: 'token-2022' }],
+      treasury: { lamports: 1_000_000_000, tokens: { [mint]: 1000 } },
+    });
+    const chain = createMemoryChain({ seed, treasury: treasury.publicKey, standards: ['nft'] });
+
+    const payout = await createPayout(redis, {
+      owner: winner, paymentSignature: 'sig-token-2022', prize: { kind: 'TOKEN', mint, amount: 25, label: '25 TKN' },
+    });
+    const done = await processPayout({ chain, redis, treasury, maxAttempts: 1, retryBaseMs: 0 }, payout.id);
+    assert.equal(done?.status, 'confirmed', done?.lastError);
+    assert.deepEqual(chain.describeWallet(winner).tokens, [{ mint, amount: '25' }]);
+  });
+});
+
+describe('refunds', () => {
+  it('sends back the exact raw token amount paid', async () => {
+    const treasury = Keypair.generate();
+    const owner = Keypair.generate().publicKey;
+    const mint = Keypair.generate().publicKey.toBase58();
+    const redis = await createMemoryRedis();
+    const seed = SandboxSeedSchema.parse({
+      mints: [{ address: mint, decimals: 9 }],
+      treasury: { lamports: 1_000_000_000, tokens: { [mint]: 1_000_000_000 } },
+    });
+    const chain = createMemoryChain({ seed, treasury: treasury.publicKey, standards: ['nft'] });
+
+    // More digits than a float keeps
+    const amount = '123456789123456789';
+    const credit: Credit = {
+      id: 'sig-refund', owner: owner.toBase58(), intentId: 'intent', clientSeed: 'seed', reason: 'test',
+      payment: { currency: 'TOKEN', mint, amount, decimals: 9 }, status: 'refunding', createdAt: 0, updatedAt: 0,
+    };
+    const payout = await createPayout(redis, { owner, paymentSignature: 'refund:sig-refund', prize: refundPrize(credit), type: 'refund' });
+    const done = await processPayout({ chain, redis, treasury, maxAttempts: 1, retryBaseMs: 0 }, payout.id);
+    assert.equal(done?.status, 'confirmed');
+    assert.deepEqual(chain.describeWallet(owner).tokens, [{ mint, amount: '123456789.123456789' }]);
+  });
+});
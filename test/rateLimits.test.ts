@@ -0,0 +1,19 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { loadRateLimitConfig, RateLimitConfigSchema } from '../src/rateLimits.js';
+
+describe('rate limit config', () => {
+  it('loads the example file', async () => {
+    const config = await loadRateLimitConfig('rate-limits.example.json');
+    assert.deepEqual(config.policies.auth, { ip: { limit: 20, windowSeconds: 60 } });
+  });
+
+  it('refuses a per-owner budget for sign-in', () => {
+    const result = RateLimitConfigSchema.safeParse({
+      policies: { auth: { ip: { limit: 20, windowSeconds: 60 }, owner: { limit: 5, windowSeconds: 60 } } },
+    });
+    assert.equal(result.success, false);
+    assert.deepEqual(result.error?.issues.map((i) => i.path.join('.')), ['policies.auth.owner']);
+  });
+});
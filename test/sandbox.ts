@@ -0,0 +1,136 @@
+import { ChildProcess, spawn } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { Keypair } from '@solana/web3.js';
+
+/**
+ * Runs the API in sandbox mode (SANDBOX=1: in-memory chain and Redis) as a child process
+ * on a free port, seeded from sandbox.example.json, for end-to-end tests.
+ */
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+// Wallets of sandbox.example.json
+export const HOLDER = 'B57xT2Rh3hSxFtJ4Jew35FNdrtQRqWMNDx4sKaH23ayA';
+export const NON_HOLDER = '32ajvTGhCeegyWCYGj57yaaNqL2bWnomSNBhsV9Vdi1S';
+export const FEE_WALLET = '5yZDvRtDPjL7U5jLk1kVCWGmaQVgoiDiyuv3Gu5ecZFE';
+export const GATE_TOKEN = '5jfYvStC8je3PZPFNS4Qxp1VGKMai4MWVT6iArTUKhUe';
+
+export type ApiResponse = { status: number; headers: Headers; body: any };
+
+export type Sandbox = {
+  url: string;
+  get(path: string, headers?: Record<string, string>): Promise<ApiResponse>;
+  post(path: string, body?: unknown, headers?: Record<string, string>): Promise<ApiResponse>;
+  /** Server output so far, for failure messages. */
+  output(): string;
+  stop(): Promise<void>;
+};
+
+export async function startSandbox(options: { prizes?: unknown; env?: Record<string, string> } = {}): Promise<Sandbox> {
+  const dir = mkdtempSync(path.join(tmpdir(), 'daily-free-box-'));
+  const prizesPath = path.join(dir, 'prizes.json');
+  writeFileSync(prizesPath, JSON.stringify(options.prizes ?? { prizes: [{ weight: 1, item: { kind: 'NOTHING' } }] }));
+  // Tests fire bursts of requests: no rate limits unless a test sets its own
+  const rateLimitsPath = path.join(dir, 'rate-limits.json');
+  writeFileSync(rateLimitsPath, JSON.stringify({ policies: {} }));
+
+  const child: ChildProcess = spawn(process.execPath, ['--import', 'tsx', 'src/index.ts'], {
+    cwd: ROOT,
+    env: {
+      PATH: process.env.PATH,
+      SANDBOX: '1',
+      SANDBOX_SEED_PATH: 'sandbox.example.json',
+      PORT: '0',
+      TREASURY_WALLET: FEE_WALLET,
+      GATE_COLLECTION_ADDRESS: 'Elementals',
+      PRIZE_COLLECTION_ADDRESS: 'Elementals',
+      GATE_TOKEN_ADDRESS: GATE_TOKEN,
+      PRIZE_TABLE_PATH: prizesPath,
+      BOXES_PATH: path.join(dir, 'boxes.json'),
+      GATES_PATH: path.join(dir, 'gates.json'),
+      WEBHOOKS_PATH: path.join(dir, 'webhooks.json'),
+      RATE_LIMITS_PATH: rateLimitsPath,
+      SESSIONS_REQUIRED: '0',
+      PAYOUT_WORKER_INTERVAL_MS: '100',
+      PAYOUT_RETRY_BASE_MS: '100',
+      ...options.env,
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  let log = '';
+  const port = await new Promise<number>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Sandbox didn't start:\n${log}`)), 60_000);
+    const onData = (chunk: Buffer) => {
+      log += chunk.toString();
+      const match = log.match(/Listening on :(\d+)/);
+      if (match) {
+        clearTimeout(timer);
+        resolve(Number(match[1]));
+      }
+    };
+    child.stdout!.on('data', onData);
+    child.stderr!.on('data', onData);
+    child.once('exit', (code) => {
+      clearTimeout(timer);
+      reject(new Error(`Sandbox exited with ${code}:\n${log}`));
+    });
+  });
+
+  const url = `http://127.0.0.1:${port}`;
+  const call = async (method: string, route: string, body?: unknown, headers: Record<string, string> = {}): Promise<ApiResponse> => {
+    const res = await fetch(url + route, {
+      method,
+      headers: body === undefined ? headers : { ...headers, 'content-type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: res.status, headers: res.headers, body: await res.json() };
+  };
+
+  return {
+    url,
+    get: (route, headers) => call('GET', route, undefined, headers),
+    post: (route, body, headers) => call('POST', route, body ?? {}, headers),
+    output: () => log,
+    async stop() {
+      if (child.exitCode === null) {
+        const exited = new Promise((resolve) => child.once('exit', resolve));
+        child.kill();
+        await exited;
+      }
+      rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+/** Poll `check` until it returns a value, or fail after `timeoutMs`. */
+export async function waitFor<T>(check: () => Promise<T | null | undefined | false>, timeoutMs = 10_000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = await check();
+    if (value) return value;
+    if (Date.now() > deadline) throw new Error('Timed out waiting');
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+}
+
+/** A new wallet with 5 SOL and one gate NFT (an Elementals NFT, like the seeded holder's). */
+export async function newHolder(sandbox: Sandbox): Promise<string> {
+  const owner = Keypair.generate().publicKey.toBase58();
+  const nft = Keypair.generate().publicKey.toBase58();
+  const res = await sandbox.post('/sandbox/airdrop', { owner, lamports: 5_000_000_000, nfts: [{ id: nft, symbol: 'ELMNT' }] });
+  if (res.status !== 200) throw new Error(`sandbox/airdrop: ${JSON.stringify(res.body)}`);
+  return owner;
+}
+
+/** Prepare a payment for `owner`, pay it from the sandbox wallet and return its signature. */
+export async function pay(sandbox: Sandbox, owner: string, route = '/prepare-payment'): Promise<{ signature: string; prepared: any }> {
+  const prepared = await sandbox.post(route, { owner });
+  if (prepared.status !== 200) throw new Error(`prepare-payment: ${JSON.stringify(prepared.body)}`);
+  const paid = await sandbox.post('/sandbox/pay', { txBase64: prepared.body.txBase64 });
+  if (paid.status !== 200) throw new Error(`sandbox/pay: ${JSON.stringify(paid.body)}`);
+  return { signature: paid.body.signature, prepared: prepared.body };
+}
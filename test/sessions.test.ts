@@ -0,0 +1,102 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPrivateKey, sign } from 'crypto';
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+
+import { Sandbox, startSandbox } from './sandbox.js';
+
+const SESSION_TTL_SECONDS = 2;
+// PKCS#8 DER prefix of an ed25519 private key, followed by its 32-byte seed
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+/** The wallet's signature of `message`, as `signMessage` returns it (base58). */
+function signMessage(wallet: Keypair, message: string) {
+  const key = createPrivateKey({ key: Buffer.concat([ED25519_PKCS8_PREFIX, wallet.secretKey.subarray(0, 32)]), format: 'der', type: 'pkcs8' });
+  return bs58.encode(sign(null, Buffer.from(message, 'utf8'), key));
+}
+
+const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+describe('sign-in sessions (sandbox)', () => {
+  let sandbox: Sandbox;
+
+  before(async () => {
+    sandbox = await startSandbox({ env: { SESSIONS_REQUIRED: '1', SESSION_TTL_SECONDS: String(SESSION_TTL_SECONDS) } });
+  });
+  after(() => sandbox?.stop());
+
+  const nonceFor = async (wallet: Keypair) => {
+    const res = await sandbox.post('/auth/nonce', { owner: wallet.publicKey.toBase58() });
+    assert.equal(res.status, 200, JSON.stringify(res.body));
+    return res.body as { nonce: string; message: string };
+  };
+
+  const signIn = async (wallet: Keypair) => {
+    const { nonce, message } = await nonceFor(wallet);
+    const res = await sandbox.post('/auth/verify', { owner: wallet.publicKey.toBase58(), nonce, signature: signMessage(wallet, message) });
+    assert.equal(res.status, 200, JSON.stringify(res.body));
+    return res.body.token as string;
+  };
+
+  it('lets a signed-in wallet call its owner-scoped routes', async () => {
+    const wallet = Keypair.generate();
+    const owner = wallet.publicKey.toBase58();
+    const token = await signIn(wallet);
+
+    const session = await sandbox.get('/auth/session', bearer(token));
+    assert.equal(session.body.owner, owner);
+    const credits = await sandbox.get(`/credits?owner=${owner}`, bearer(token));
+    assert.equal(credits.status, 200, JSON.stringify(credits.body));
+    assert.deepEqual(credits.body.credits, []);
+
+    // The session is for this wallet only
+    const other = Keypair.generate().publicKey.toBase58();
+    const forbidden = await sandbox.get(`/credits?owner=${other}`, bearer(token));
+    assert.equal(forbidden.status, 403);
+    assert.equal(forbidden.body.code, 'FORBIDDEN');
+
+    assert.equal((await sandbox.post('/auth/logout', {}, bearer(token))).status, 200);
+    assert.equal((await sandbox.get(`/credits?owner=${owner}`, bearer(token))).status, 401);
+  });
+
+  it('refuses a nonce that was already used', async () => {
+    const wallet = Keypair.generate();
+    const { nonce, message } = await nonceFor(wallet);
+    const body = { owner: wallet.publicKey.toBase58(), nonce, signature: signMessage(wallet, message) };
+    assert.equal((await sandbox.post('/auth/verify', body)).status, 200);
+
+    const replayed = await sandbox.post('/auth/verify', body);
+    assert.equal(replayed.status, 401);
+    assert.equal(replayed.body.code, 'UNAUTHORIZED');
+    assert.equal(replayed.body.error, 'Unknown or expired nonce');
+  });
+
+  it('refuses a signature by another wallet and uses the nonce up', async () => {
+    const wallet = Keypair.generate();
+    const { nonce, message } = await nonceFor(wallet);
+    const forged = await sandbox.post('/auth/verify', { owner: wallet.publicKey.toBase58(), nonce, signature: signMessage(Keypair.generate(), message) });
+    assert.equal(forged.status, 401);
+    assert.equal(forged.body.error, 'Invalid signature');
+
+    const retried = await sandbox.post('/auth/verify', { owner: wallet.publicKey.toBase58(), nonce, signature: signMessage(wallet, message) });
+    assert.equal(retried.body.error, 'Unknown or expired nonce');
+  });
+
+  it('refuses owner-scoped calls without a live session', async () => {
+    const wallet = Keypair.generate();
+    const owner = wallet.publicKey.toBase58();
+
+    const missing = await sandbox.get(`/credits?owner=${owner}`);
+    assert.equal(missing.status, 401);
+    assert.equal(missing.body.code, 'UNAUTHORIZED');
+    assert.equal((await sandbox.get(`/credits?owner=${owner}`, bearer('not-a-token'))).status, 401);
+
+    const token = await signIn(wallet);
+    assert.equal((await sandbox.get(`/credits?owner=${owner}`, bearer(token))).status, 200);
+    await new Promise((resolve) => setTimeout(resolve, SESSION_TTL_SECONDS * 1000 + 200));
+    const expired = await sandbox.get(`/credits?owner=${owner}`, bearer(token));
+    assert.equal(expired.status, 401);
+    assert.equal(expired.body.code, 'UNAUTHORIZED');
+  });
+});
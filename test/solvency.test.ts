@@ -0,0 +1,69 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair } from '@solana/web3.js';
+import Redis from 'ioredis';
+
+import { createPayout, processPayout, retryPayout } from '../src/payouts.js';
+import { PrizeKind, Weighted } from '../src/rewards.js';
+import { createMemoryChain, createMemoryRedis, MemoryChain, SandboxSeedSchema } from '../src/sandbox.js';
+import { applyPayoutLimits, getBudgetStatus, getPendingPayoutLamports, SolvencyConfig } from '../src/solvency.js';
+
+const SOL_PRIZE: PrizeKind = { kind: 'SOL', lamports: 500_000_000, label: '0.5 SOL' };
+const NFT_PRIZE: PrizeKind = { kind: 'NFT', label: 'NFT' };
+
+describe('payout limits', () => {
+  const treasury = Keypair.generate();
+  const winner = Keypair.generate().publicKey;
+  let redis: Redis;
+  let chain: MemoryChain;
+
+  const config = (budgets: Partial<SolvencyConfig['budgets']> = {}): SolvencyConfig => ({
+    budgets: { SOL: 0, NFT: 0, TOKEN: 0, ...budgets },
+    mode: 'downgrade',
+    downgradeTo: 'NOTHING',
+    lowBalanceLamports: 0,
+  });
+  const table = (item: PrizeKind): Weighted<PrizeKind>[] => [{ weight: 1, item }];
+
+  beforeEach(async () => {
+    // ioredis-mock instances share their data
+    redis = await createMemoryRedis();
+    await redis.flushall();
+    const seed = SandboxSeedSchema.parse({ treasury: { lamports: 1_200_000_000 } });
+    chain = createMemoryChain({ seed, treasury: treasury.publicKey, standards: ['nft'] });
+  });
+
+  it('lets only as many parallel opens win SOL as the treasury covers', async () => {
+    const limited = await Promise.all(['a', 'b', 'c', 'd'].map((sig) =>
+      applyPayoutLimits(chain, redis, treasury.publicKey, sig, SOL_PRIZE, table(SOL_PRIZE), config())
+    ));
+    assert.equal(limited.filter((l) => l.prize.kind === 'SOL').length, 2);
+    assert.equal(await getPendingPayoutLamports(redis), 1_000_000_000);
+
+    // Again for the same payment: same result, nothing reserved twice
+    const kept = limited.findIndex((l) => l.prize.kind === 'SOL');
+    const again = await applyPayoutLimits(chain, redis, treasury.publicKey, 'abcd'[kept], SOL_PRIZE, table(SOL_PRIZE), config());
+    assert.equal(again.prize.kind, 'SOL');
+    assert.equal(await getPendingPayoutLamports(redis), 1_000_000_000);
+  });
+
+  it('gives the budget back when the payout fails and takes it again on retry', async () => {
+    const cfg = config({ NFT: 1 });
+    const limited = await applyPayoutLimits(chain, redis, treasury.publicKey, 'sig-nft', NFT_PRIZE, table(NFT_PRIZE), cfg);
+    assert.ok(limited.budgetDay);
+    const full = await applyPayoutLimits(chain, redis, treasury.publicKey, 'sig-other', NFT_PRIZE, table(NFT_PRIZE), cfg);
+    assert.equal(full.prize.kind, 'NOTHING');
+
+    // The prize inventory is empty, so the payout fails
+    const payout = await createPayout(redis, {
+      owner: winner, paymentSignature: 'sig-nft', prize: limited.prize, reserved: { day: limited.budgetDay },
+    });
+    const ctx = { chain, redis, treasury, maxAttempts: 1, retryBaseMs: 0 };
+    await processPayout(ctx, payout.id);
+    assert.equal((await processPayout(ctx, payout.id))?.status, 'failed');
+    assert.equal((await getBudgetStatus(redis, cfg)).budgets.NFT.used, 0);
+
+    await retryPayout(ctx, payout.id);
+    assert.equal((await getBudgetStatus(redis, cfg)).budgets.NFT.used, 1);
+  });
+});